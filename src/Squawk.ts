@@ -1,36 +1,296 @@
-import { useEffect, useMemo, useRef, useState } from "react";
+import { createContext, createElement, ReactNode, useContext, useEffect, useMemo, useRef, useState } from "react";
 
-interface ReduxDevTools<T> {
-  subscribe(callback: (message: { type: string; state: string }) => void): void;
-  init(state: T): void;
-  send(label: string, state: T): void;
+import { connectDevTools, DevToolsAction, DevToolsOptions } from "./devtools";
+import { createHistory, HistoryOptions } from "./history";
+import { getIn, isTraversable, PATH_SEPARATOR, PathKeys, PathSubscribe, SetIn, setIn } from "./paths";
+import { createPersistor, PersistOptions } from "./persistence";
+import { createQuery, QueryOptions } from "./query";
+import { actionContexts, mockedResolvers, updateRecorders } from "./resolvers";
+import { RetryOptions, RetryState, withRetry } from "./retry";
+import { AnySlice, bindSlice, CombinedState, SliceKeys, SliceStore } from "./slices";
+import { createMutationGuard } from "./strict";
+import { createSync, SyncOptions } from "./sync";
+import { hydratesSelectively, useSyncExternalStore } from "./useSyncExternalStore";
+import { isPromise, pick } from "./utils";
+import { validateValues, ValidationError, Validators } from "./validation";
+
+export type { DevToolsOptions } from "./devtools";
+export type { HistoryOptions } from "./history";
+export type { PathSubscribe, SetIn } from "./paths";
+export { createMemoryStorage, createWebStorage } from "./persistence";
+export type { Migration, PersistOptions, StorageAdapter } from "./persistence";
+export type { QueryOptions, QueryStatus } from "./query";
+export { getActionContext } from "./resolvers";
+export type { ActionContext } from "./resolvers";
+export type { Backoff, RetryOptions, RetryState } from "./retry";
+export { createSlice } from "./slices";
+export type { AnySlice, BoundSliceActions, CombinedState, SliceActionDefinition, SliceActions, SliceKeys, SliceOptions, SliceResolver } from "./slices";
+export { createStateScript, readServerState, serializeState } from "./ssr";
+export { MutationError } from "./strict";
+export { createBroadcastTransport, createMemoryChannel, createStorageTransport } from "./sync";
+export type { ConflictPolicy, SyncedValue, SyncMessage, SyncOptions, SyncTransport } from "./sync";
+export { ValidationError } from "./validation";
+export type { SchemaAdapter, ValidationIssue, Validator, Validators } from "./validation";
+
+/** Computed props, each derived from the store by a function. The props read by the function are tracked automatically */
+export type ComputedProps<T, C> = { [K in keyof C]: (store: Readonly<Required<T>>) => C[K] };
+
+// eslint-disable-next-line @typescript-eslint/ban-types
+export interface StoreOptions<T, C = {}> {
+  /** Toggles integration with Redux Dev Tools, optionally with options for the extension */
+  reduxDevTools?: boolean | DevToolsOptions<Required<T>>;
+  /** Persists (parts of) the store, and restores it when the store is created */
+  persist?: PersistOptions<T>;
+  /** Read-only props derived from the store, recomputed only when the props they depend on change */
+  computed?: ComputedProps<T, C>;
+  /** Middleware invoked for every update, in order. More middleware may be added with `use` */
+  middleware?: Middleware<Required<T>>[];
+  /** Enables undo/redo for (parts of) the store */
+  history?: HistoryOptions<T>;
+  /** Keeps (parts of) the store in sync with stores in other tabs and windows */
+  sync?: SyncOptions<Required<T>>;
+  /**
+   * State rendered on the server (see `readServerState`), applied on top of the initial state when the store is created
+   *
+   * @remarks
+   *
+   * While a component is hydrated, its hooks return the server state (and no pending operations or errors) so that
+   * hydration matches what was rendered on the server, even if e.g. persisted state has been restored in the meantime.
+   */
+  serverState?: Partial<T>;
+  /** Validators for (some of) the store props, run before any change to them is applied */
+  validate?: Validators<Required<T>>;
+  /**
+   * If true (default), changes made by the application that fail validation throw a `ValidationError`.
+   * Otherwise they are dropped, and only reported to `onValidationError`
+   *
+   * @remarks
+   *
+   * Changes from outside the application (Redux dev tools, other tabs, persisted and server state) never throw, invalid ones are always dropped and reported.
+   */
+  strictValidation?: boolean;
+  /** Invoked whenever a change is rejected by a validator, along with where the change originated */
+  onValidationError?: (error: ValidationError, source: ValidationSource) => void;
+  /**
+   * Decides whether an updated value differs from the current one, either for every prop or per prop. Defaults to `Object.is`
+   *
+   * @remarks
+   *
+   * Props whose values haven't changed are neither updated nor notified, and an update that changes nothing isn't sent to Redux dev tools,
+   * recorded in the history, persisted or synced.
+   */
+  equality?: ((a: unknown, b: unknown) => boolean) | { [K in keyof T]?: (a: T[K], b: T[K]) => boolean };
+  /**
+   * Guards the store against mutations, in development builds only (i.e. unless `process.env.NODE_ENV` is "production")
+   *
+   * @remarks
+   *
+   * Plain objects and arrays in the store are deep-frozen, so mutating them (in resolvers, subscribers or components) throws.
+   * Other objects, such as class instances, are checked instead: passing one that has been mutated back to the store throws a `MutationError`.
+   */
+  strict?: boolean;
 }
 
-interface WindowWithExtension<T> extends Window {
-  __REDUX_DEVTOOLS_EXTENSION__?: {
-    connect(): ReduxDevTools<T>;
-  };
+/**
+ * How an action handles being invoked while a previous invocation is still running
+ *
+ * - `takeEvery`: Every invocation runs (default)
+ * - `takeLatest`: A new invocation aborts the ones still running
+ * - `takeLeading` / `exhaust`: New invocations are ignored while one is running
+ * - `{ debounce: ms }`: Only runs once no new invocation has been made for `ms` milliseconds, and aborts the ones still running
+ * - `{ throttle: ms }`: Runs at most once every `ms` milliseconds, invocations in between are ignored
+ */
+export type Concurrency = "takeEvery" | "takeLatest" | "takeLeading" | "exhaust" | { debounce: number } | { throttle: number };
+
+/** A prop whose optimistic value was changed by another update before the action failed, and which therefore wasn't rolled back */
+export interface OptimisticConflict<S> {
+  prop: keyof S;
+  /** The value before the optimistic patch was applied */
+  previous: unknown;
+  /** The value applied by the optimistic patch */
+  optimistic: unknown;
+  /** The value set by the other update, which is kept */
+  current: unknown;
+}
+
+// eslint-disable-next-line @typescript-eslint/ban-types
+export interface ActionOptions<S = {}, A extends unknown[] = unknown[]> {
+  /** Used to identify the action, e.g. in middleware */
+  name?: string;
+  concurrency?: Concurrency;
+  /**
+   * Batches the updates made by the resolver into a single notification
+   *
+   * @remarks
+   *
+   * Only the updates made before an async resolver first awaits something are batched, updates made after that are notified right away.
+   * Return them from the resolver to apply them as a single update.
+   */
+  batch?: boolean;
+  /**
+   * Runs the resolver again if it throws, waiting between attempts. The resolver reads the `RetryState` from `getActionContext`
+   *
+   * @remarks
+   *
+   * Aborting the invocation stops the retries. Timers are used for the delays, so tests may use fake timers.
+   */
+  retry?: RetryOptions;
+  /**
+   * Returns a patch that is applied as soon as the action is invoked, before the resolver has completed
+   *
+   * @remarks
+   *
+   * The values returned by the resolver replace the patch. If the resolver throws (or the invocation is aborted), the patched props are
+   * rolled back to the values they had before, except for props that other updates have changed in the meantime (see `onConflict`).
+   */
+  optimistic?: (store: Readonly<S>, ...args: A) => Partial<S>;
+  /** Invoked with the props that weren't rolled back, since other updates changed them while the action was running */
+  onConflict?: (conflicts: OptimisticConflict<S>[]) => void;
+}
+
+/** Describes where an update originated */
+export type UpdateSource =
+  | { type: "update" }
+  | { type: "action"; name?: string; args: unknown[] }
+  | { type: "devtools" }
+  | { type: "history"; operation: "undo" | "redo" }
+  | { type: "rollback" }
+  | { type: "sync" }
+  | { type: "reset" }
+  | { type: "restore" };
+
+interface ActionInvocation<T> {
+  /** The name given to the action, if any */
+  name?: string;
+  args: unknown[];
+  affectedContexts: (keyof T)[];
 }
 
+/**
+ * Describes the lifecycle of an action invocation, sent to `onAction` listeners
+ *
+ * @remarks
+ *
+ * Every invocation that runs sends `start`, followed by `success`, `error` or (if it was aborted) `cancel` once its pending status
+ * has been cleared. `update` is the value returned by the resolver, before any middleware has transformed it. Actions with a retry
+ * policy send `retry` before waiting for the next attempt, with the number of that attempt and the error of the previous one.
+ */
+export type ActionEvent<T> =
+  | (ActionInvocation<T> & { type: "start" })
+  | (ActionInvocation<T> & { type: "success"; duration: number; update: Partial<T> | undefined })
+  | (ActionInvocation<T> & { type: "retry"; attempt: number; error: unknown; delay: number })
+  | (ActionInvocation<T> & { type: "error"; duration: number; error: unknown })
+  | (ActionInvocation<T> & { type: "cancel"; duration: number });
+
+/** Describes where a validated change originated, either an update or state restored when the store is created */
+export type ValidationSource = UpdateSource | { type: "hydration" };
+
+export interface MiddlewareContext<T> {
+  /** The incoming update, possibly transformed by previous middleware */
+  update: Partial<T>;
+  /** The state before the update is applied */
+  previousState: Readonly<T>;
+  /** Where the update originated */
+  source: UpdateSource;
+  /** Returns the current state, i.e. the updated state once `next` has been called */
+  getState(): Readonly<T>;
+}
+
+/**
+ * Middleware is invoked for every update before it is applied
+ *
+ * @remarks
+ *
+ * Call `next` to pass the update on to the next middleware (and eventually apply it), optionally with a transformed update.
+ * Not calling `next` vetoes the update. Code after `next` runs after the update has been applied. Middleware may be async,
+ * in which case actions will wait for it, but `update` will not. Errors after an async middleware has been awaited are reported to
+ * `onValidationError` (validation errors, if supplied) or logged, since `update` can no longer throw them.
+ */
+export type Middleware<T> = (context: MiddlewareContext<T>, next: (update?: Partial<T>) => void | Promise<void>) => void | Promise<void>;
+
+/** Creates an AbortController, or a minimal stand-in on platforms that lack one (older React Native versions, for instance) */
+const createAbortController = (): AbortController => {
+  if (typeof AbortController !== "undefined") {
+    return new AbortController();
+  }
+
+  const listeners = new Set<() => void>();
+  const signal = {
+    aborted: false,
+    addEventListener: (_: string, listener: () => void) => listeners.add(listener),
+    removeEventListener: (_: string, listener: () => void) => listeners.delete(listener)
+  };
+
+  return {
+    signal: (signal as unknown) as AbortSignal,
+    abort() {
+      if (!signal.aborted) {
+        // eslint-disable-next-line immutable/no-mutation
+        signal.aborted = true;
+        listeners.forEach((listener) => listener());
+      }
+    }
+  };
+};
+
+/** Compares two values by reference, or if both are objects (or arrays), by the references of their own properties */
+export const shallowEqual = (a: unknown, b: unknown): boolean => {
+  if (Object.is(a, b)) {
+    return true;
+  }
+
+  if (typeof a !== "object" || typeof b !== "object" || a === null || b === null) {
+    return false;
+  }
+
+  const objA = a as Record<string, unknown>;
+  const objB = b as Record<string, unknown>;
+  const keysA = Object.keys(objA);
+  if (keysA.length !== Object.keys(objB).length) {
+    return false;
+  }
+
+  return keysA.every((key) => Object.prototype.hasOwnProperty.call(objB, key) && Object.is(objA[key], objB[key]));
+};
+
 const createStoreWrapper = <T>(initialState: T) => {
   // eslint-disable-next-line immutable/no-let
   let globalState = { ...initialState };
+  /** Copy of the state handed out by snapshot(), kept until the state changes */
+  // eslint-disable-next-line immutable/no-let
+  let snapshot: Readonly<T> | null = null;
   return {
     update(updatedValues: Partial<T>) {
       globalState = { ...globalState, ...updatedValues };
+      snapshot = null;
     },
     get() {
       return { ...globalState } as Readonly<T>;
     },
+    /** Like get(), but returns the same copy for as long as the state is unchanged */
+    snapshot() {
+      if (!snapshot) {
+        snapshot = { ...globalState };
+      }
+      return snapshot;
+    },
     getValue(prop: keyof T) {
       return globalState[prop];
     },
     setValue<K extends keyof T>(prop: K, value: T[K]) {
       // eslint-disable-next-line immutable/no-mutation
       globalState[prop] = value;
+      snapshot = null;
     },
     set(state: Required<T>) {
       globalState = { ...state };
+      snapshot = null;
+    },
+    delete(prop: keyof T) {
+      globalState = { ...globalState };
+      // eslint-disable-next-line immutable/no-mutation
+      delete globalState[prop];
+      snapshot = null;
     },
     keys() {
       return Object.keys(globalState) as (keyof T)[];
@@ -46,28 +306,91 @@ const createStoreWrapper = <T>(initialState: T) => {
  * **Note**: Ensure that the **ENTIRE** state is fully initialized in the createStore call, or you will faces issues with crashes.
  * If a prop must support undefined, define it as "foo: type | undefined" rather than "foo?: type".
  */
-// eslint-disable-next-line @typescript-eslint/explicit-module-boundary-types
-export default function createStore<T>(initialState: Required<T>, useReduxDevTools = false) {
+// eslint-disable-next-line @typescript-eslint/explicit-module-boundary-types, @typescript-eslint/ban-types
+export default function createStore<T, C = {}, L = {}>(initialState: Required<T>, options: boolean | StoreOptions<T, C> = false) {
   if (initialState == null || typeof initialState !== "object" || Array.isArray(initialState)) {
     throw Error(`Root store value must be an object`);
   }
 
+  /** The second argument used to be a boolean toggling Redux Dev Tools, and is still accepted as such */
+  const storeOptions: StoreOptions<T, C> = typeof options === "boolean" ? { reduxDevTools: options } : options;
+
+  /** The initial value of every prop, including those registered later */
+  const initialValues = { ...initialState } as Required<T> & Partial<L>;
+
   /** Wrapper for the global state, ensures consistency across async calls */
-  const globalState = createStoreWrapper(initialState);
+  const globalState = createStoreWrapper(initialValues);
+
+  /**
+   * Runs the validators of the given values, and returns the props with invalid values
+   *
+   * @remarks
+   *
+   * Invalid changes made by the application throw, unless validation isn't strict. All other invalid changes are reported to onValidationError.
+   */
+  const validate = (values: Partial<T>, source: ValidationSource): (keyof T)[] => {
+    if (!storeOptions.validate) {
+      return [];
+    }
+
+    const issues = validateValues(storeOptions.validate, values as Partial<Required<T>>);
+    if (issues.length === 0) {
+      return [];
+    }
+
+    const error = new ValidationError(issues);
+    const external = source.type === "devtools" || source.type === "sync" || source.type === "hydration";
+    if (!external && storeOptions.strictValidation !== false) {
+      throw error;
+    }
+    if (storeOptions.onValidationError) {
+      storeOptions.onValidationError(error, source);
+    }
+    return issues.map((issue) => issue.prop as keyof T);
+  };
+
+  /** Guards against mutations in strict mode. The condition is inlined, so that bundlers can drop the guard from production builds */
+  const mutationGuard = storeOptions.strict && process.env.NODE_ENV !== "production" ? createMutationGuard() : null;
+
+  if (storeOptions.serverState) {
+    const { serverState } = storeOptions;
+    const invalid = validate(serverState, { type: "hydration" });
+    // Ignore props that aren't part of the store, or that are invalid
+    globalState.update(
+      pick(
+        serverState,
+        (Object.keys(serverState) as (keyof T)[]).filter((prop) => prop in initialState && !invalid.includes(prop))
+      ) as Partial<TState>
+    );
+  }
+
+  if (mutationGuard) {
+    mutationGuard.protect(globalState.get());
+  }
 
   // === Type definitions ===
-  type TStore = typeof initialState;
+  /** The writable part of the store */
+  type TState = Required<T> & Partial<L>;
+
+  /** The store as it is read, including computed props */
+  type TStore = TState & Readonly<C>;
 
   type StoreProp = keyof TStore;
 
-  type PendingCount = { [K in keyof T]: number };
+  type StateProp = keyof TState;
+
+  type ComputedProp = keyof C;
 
-  type PendingState = { [K in keyof T]: boolean };
+  type PendingCount = { [K in keyof TState]: number };
+
+  type PendingState = { [K in keyof TState]: boolean };
+
+  type ErrorState = { [K in keyof TState]: unknown };
 
   /** Type alias for subscribers: (value: T) => any */
   type Callback<T = TStore> = (value: T) => void;
 
-  type ActionResult = Partial<TStore> | undefined | void;
+  type ActionResult = Partial<TState> | undefined | void;
 
   type StoreUpdate<T extends unknown[]> = (store: TStore, ...args: T) => ActionResult | Promise<ActionResult>;
   // === End type definitions ===
@@ -75,32 +398,286 @@ export default function createStore<T>(initialState: Required<T>, useReduxDevToo
   /** Map that links individual keys in TStore to the subscriber callbacks */
   const subscribers = new Map<StoreProp, Set<Callback>>();
 
+  /** Map that links individual keys in TStore to subscriptions of nested paths within them, along with the value last seen at the path */
+  const pathSubscribers = new Map<StoreProp, Set<{ path: PathKeys; value: unknown; subscriber: Callback }>>();
+
   /** Structures to track pending state for each store prop */
   const pendingCount = createStoreWrapper({} as PendingCount);
   const pendingState = createStoreWrapper({} as PendingState);
 
+  /** Number of calls to pending(context, false) to ignore, since the operations making them were still running when the context was reset */
+  const releasedPending = new Map<StateProp, number>();
+
+  /** Number of times each prop has been reset while pending, so that actions can tell whether they started before the latest reset */
+  const pendingResets = new Map<StateProp, number>();
+
+  /** Number of actions started since the latest reset that mark each prop as pending, they clear it themselves when they end */
+  const pendingActions = new Map<StateProp, number>();
+
   /** Map that links individual keys in TStore to the pending operation callbacks */
-  const pendingSubscribers = new Map<StoreProp, Set<Callback<PendingState>>>();
+  const pendingSubscribers = new Map<StateProp, Set<Callback<PendingState>>>();
 
-  /** Ensure that subscriber Map contains all contexts */
-  for (const context of globalState.keys()) {
+  /** Structures to track the latest error for each store prop, and which action caused it */
+  const errorState = createStoreWrapper({} as ErrorState);
+  const errorOwners = new Map<StateProp, unknown>();
+
+  /** Map that links individual keys in TStore to the error callbacks */
+  const errorSubscribers = new Map<StateProp, Set<Callback<ErrorState>>>();
+
+  /** Sets up the subscribers, pending status and error of a context */
+  const addContext = (context: StateProp) => {
     subscribers.set(context, new Set());
     pendingSubscribers.set(context, new Set());
     pendingCount.setValue(context, 0);
     pendingState.setValue(context, false);
+    errorSubscribers.set(context, new Set());
+    errorState.setValue(context, undefined);
+  };
+
+  /** Ensure that subscriber Map contains all contexts */
+  for (const context of globalState.keys()) {
+    addContext(context);
+  }
+
+  /** Throws unless the contexts are part of the state, i.e. defined in the initial state or registered */
+  const assertContexts = (contexts: StoreProp[]) => {
+    for (const context of contexts) {
+      if (!pendingSubscribers.has(context as StateProp)) {
+        throw Error(`"${String(context)}" is not part of the store`);
+      }
+    }
+  };
+
+  /** Sets (or clears, if error is undefined) the error of the supplied contexts, and notifies error subscribers */
+  const dispatchError = (contexts: StateProp[], error: unknown, owner?: unknown) => {
+    assertContexts(contexts);
+    // Internal set to ensure that we only call each callback once
+    const errorSubscribersInternal = new Set<Callback<ErrorState>>();
+
+    for (const context of contexts) {
+      // Actions only clear the errors they caused themselves
+      if (error === undefined && owner !== undefined && errorOwners.get(context) !== owner) {
+        continue;
+      }
+
+      errorState.setValue(context, error);
+      if (error === undefined) {
+        errorOwners.delete(context);
+      } else {
+        errorOwners.set(context, owner);
+      }
+
+      // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+      errorSubscribers.get(context)!.forEach((callback) => errorSubscribersInternal.add(callback));
+    }
+
+    if (errorSubscribersInternal.size > 0) {
+      const currentErrorState = errorState.get();
+      for (const subscriber of errorSubscribersInternal) {
+        subscriber(currentErrorState);
+      }
+    }
+  };
+
+  /** Cached values, and the contexts they were derived from, for each computed prop */
+  const computed = new Map<ComputedProp, { compute: (store: TState) => unknown; value: unknown; published: unknown; dirty: boolean; dependencies: Set<StoreProp> }>();
+
+  for (const [context, compute] of Object.entries(storeOptions.computed || {}) as [ComputedProp, (store: TState) => unknown][]) {
+    if (subscribers.has(context)) {
+      throw Error(`Computed prop "${context}" conflicts with a store prop`);
+    }
+
+    subscribers.set(context, new Set());
+    computed.set(context, { compute, value: undefined, published: undefined, dirty: true, dependencies: new Set() });
   }
 
+  /** Returns the value of a computed prop, only recomputing it if any of its dependencies have changed */
+  const readComputed = (context: ComputedProp) => {
+    // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+    const entry = computed.get(context)!;
+    if (entry.dirty) {
+      // Dependencies are tracked anew every time, since the compute function may read different props depending on the state
+      entry.dependencies.clear();
+      // Mark as clean before computing, so that a computed prop that reads itself doesn't recurse infinitely
+      // eslint-disable-next-line immutable/no-mutation
+      entry.dirty = false;
+      // eslint-disable-next-line immutable/no-mutation
+      entry.value = trackSelector(entry.compute, getState(), entry.dependencies);
+    }
+    return entry.value;
+  };
+
+  /** Exposes computed props on a copy of the state as lazily evaluated getters */
+  const defineComputed = (state: TStore) => {
+    for (const context of computed.keys()) {
+      Object.defineProperty(state, context, { enumerable: true, get: () => readComputed(context) });
+    }
+    return state;
+  };
+
+  /** Returns a copy of the global state, with computed props exposed as lazily evaluated getters */
+  const getState = () => defineComputed(globalState.get() as TStore);
+
+  /**
+   * Marks computed props that depend on any of the changed contexts as dirty, and returns the contexts that should be notified
+   *
+   * @remarks
+   *
+   * Computed props that have subscribers are recomputed right away, and only notified if their value differs from the one
+   * last published to subscribers. Computed props without subscribers (or all of them, if deferred) are left dirty, and
+   * will be recomputed once they are read.
+   */
+  const invalidateComputed = (contexts: StoreProp[], deferred = false) => {
+    if (computed.size === 0) {
+      return contexts;
+    }
+
+    const affected = [...contexts];
+    const queue = [...contexts];
+    const invalidated = new Set<StoreProp>();
+
+    while (queue.length > 0) {
+      const context = queue.shift();
+      for (const [computedContext, entry] of computed) {
+        if (invalidated.has(computedContext as StoreProp) || !entry.dependencies.has(context as StoreProp)) {
+          continue;
+        }
+
+        invalidated.add(computedContext as StoreProp);
+        // eslint-disable-next-line immutable/no-mutation
+        entry.dirty = true;
+
+        // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+        if (deferred || subscribers.get(computedContext as StoreProp)!.size === 0) {
+          // Nobody is listening, but computed props that depend on this one may still need to be invalidated
+          queue.push(computedContext as StoreProp);
+        } else if (!Object.is(entry.published, readComputed(computedContext))) {
+          // eslint-disable-next-line immutable/no-mutation
+          entry.published = entry.value;
+          affected.push(computedContext as StoreProp);
+          queue.push(computedContext as StoreProp);
+        }
+      }
+    }
+
+    return affected;
+  };
+
+  /** Number of batches currently open, notifications are deferred until all of them have been closed */
+  // eslint-disable-next-line immutable/no-let
+  let batchDepth = 0;
+
+  /** Contexts that have changed during the current batch */
+  const batchedContexts = new Set<StoreProp>();
+
+  /** Runs the callback (and waits for it, if it returns a promise) in a batch, invoking onSettled once it has completed or failed */
+  const runBatched = <R>(callback: () => R, onSettled?: (failed: boolean) => void): R => {
+    const endBatch = (failed: boolean) => {
+      if (onSettled) {
+        onSettled(failed);
+      }
+      batchDepth--;
+      if (batchDepth === 0 && batchedContexts.size > 0) {
+        const contexts = Array.from(batchedContexts);
+        batchedContexts.clear();
+        notifySubscribers(contexts);
+      }
+    };
+    const fail = (error: unknown) => {
+      endBatch(true);
+      throw error;
+    };
+
+    batchDepth++;
+    // eslint-disable-next-line immutable/no-let
+    let result: R;
+    try {
+      result = callback();
+    } catch (error) {
+      return fail(error);
+    }
+
+    if (isPromise(result)) {
+      return (result.then((value) => {
+        endBatch(false);
+        return value;
+      }, fail) as unknown) as R;
+    }
+
+    endBatch(false);
+    return result;
+  };
+
+  /** The props written by a transaction, along with the value each had before the transaction first wrote it, and the value it last wrote */
+  type TransactionWrites = Map<StateProp, { previous: unknown; value: unknown }>;
+
+  /** The writes of the transactions currently open */
+  const transactions = new Set<TransactionWrites>();
+
+  /** The transactions that were open when an action was invoked, keyed by the sources of the updates made by the invocation */
+  const sourceTransactions = new WeakMap<UpdateSource, Set<TransactionWrites>>();
+
+  /** The history groups of action invocations and transactions, keyed by the sources of the updates made by them */
+  // eslint-disable-next-line @typescript-eslint/ban-types
+  const historyGroups = new WeakMap<UpdateSource, object>();
+
+  /**
+   * Returns the history group an update belongs to, i.e. the entry it is merged into: the outermost open transaction it is part of,
+   * or else the action invocation that made it. Updates outside of both are grouped by time only (see `HistoryOptions.groupWindow`)
+   */
+  const getHistoryGroup = (source: UpdateSource) => {
+    for (const writes of sourceTransactions.get(source) || transactions) {
+      if (transactions.has(writes)) {
+        return writes;
+      }
+    }
+    return historyGroups.get(source);
+  };
+
+  /**
+   * Records the changes made by an update as writes of the open transactions, so that they can be rolled back
+   *
+   * @remarks
+   *
+   * Updates made by actions only belong to the transactions that were open when the action was invoked. Changes from Redux dev tools,
+   * the history and other tabs never belong to a transaction.
+   */
+  const recordTransactionWrites = (contexts: StateProp[], previousState: Readonly<TState>, source: UpdateSource) => {
+    if (transactions.size === 0 || ["devtools", "history", "sync"].includes(source.type)) {
+      return;
+    }
+
+    const owners = sourceTransactions.get(source);
+    for (const writes of transactions) {
+      if (owners && !owners.has(writes)) {
+        continue;
+      }
+      for (const context of contexts) {
+        const written = writes.get(context);
+        writes.set(context, { previous: written ? written.previous : previousState[context], value: globalState.getValue(context) });
+      }
+    }
+  };
+
   /** Function for notifying subscribers of a change */
   const notifySubscribers = (contexts: StoreProp[]) => {
-    /** Get a (non-unique) list of affected subscribers */
-    // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
-    const contextSubscribers = contexts.map((context) => subscribers.get(context)!);
+    if (batchDepth > 0) {
+      contexts.forEach((context) => batchedContexts.add(context));
+      // Computed props still need to be marked as dirty, so that they are up-to-date if read during the batch
+      invalidateComputed(contexts, true);
+      return;
+    }
+
+    /** Get the affected contexts, including computed props that have changed as a result */
+    const affectedContexts = invalidateComputed(contexts);
+    /** Get a (non-unique) list of affected subscribers, contexts unregistered during a batch no longer have any */
+    const contextSubscribers = affectedContexts.map((context) => subscribers.get(context) || []);
 
     /** Ensure that subscribers are invoked only once */
     const invokedSubscribers = new Set<Callback>();
 
     // Cache the state locally so we don't recreate a copy of it for every subscriber
-    const currentState = globalState.get();
+    const currentState = getState();
 
     const reduceEach = (subscriber: Callback) => {
       // Check if subscriber has been invoked
@@ -122,68 +699,507 @@ export default function createStore<T>(initialState: Required<T>, useReduxDevToo
         reduceEach(subscriber);
       }
     }
+
+    // Subscribers of nested paths are only invoked if the value at the path has changed
+    for (const context of affectedContexts) {
+      for (const subscription of pathSubscribers.get(context) || []) {
+        const value = getIn(currentState, subscription.path);
+        if (!Object.is(value, subscription.value)) {
+          // eslint-disable-next-line immutable/no-mutation
+          subscription.value = value;
+          reduceEach(subscription.subscriber);
+        }
+      }
+    }
   };
 
-  /** Set up Redux Dev tools (if enabled) */
-  const devToolsExt = typeof window !== "undefined" ? (window as WindowWithExtension<TStore>).__REDUX_DEVTOOLS_EXTENSION__ : null;
-  const reduxDevTools = useReduxDevTools && devToolsExt ? devToolsExt.connect() : null;
+  /** Set up Redux Dev tools (if enabled), states sent from the extension are dispatched to all subscribers */
+  const reduxDevTools = connectDevTools<TState>(storeOptions.reduxDevTools as boolean | DevToolsOptions<TState> | undefined, initialValues, globalState.get as () => TState, (state) =>
+    dispatchDetached(state as Partial<TState>, { type: "devtools" })
+  );
 
-  if (reduxDevTools) {
-    reduxDevTools.subscribe((message) => {
-      // If Redux dev tools emitted a dispatch, and the state has a value
-      if (message.type === "DISPATCH" && message.state) {
-        // Deserialize the value and dispatch updates to all subscribers
-        try {
-          globalState.set(JSON.parse(message.state));
-          notifySubscribers(globalState.keys());
-        } catch {
-          // Ignore malformed JSON
-        }
+  /** Creates the entry recorded in Redux dev tools for an update, labelled by the action that caused it if there is one */
+  const createDevToolsAction = (updatedValues: Partial<TState>, source: UpdateSource): DevToolsAction => {
+    switch (source.type) {
+      case "action":
+        return { type: source.name || Object.keys(updatedValues).join(" | "), args: source.args, update: updatedValues };
+      case "history":
+        return { type: `@@${source.operation.toUpperCase()}`, update: updatedValues };
+      case "rollback":
+        return { type: "@@ROLLBACK", update: updatedValues };
+      case "sync":
+        return { type: "@@SYNC", update: updatedValues };
+      case "reset":
+        return { type: "@@RESET", update: updatedValues };
+      case "restore":
+        return { type: "@@RESTORE", update: updatedValues };
+      default:
+        return { type: Object.keys(updatedValues).join(" | "), update: updatedValues };
+    }
+  };
+
+  /** Updates the contexts whose values differ from the supplied ones, ignoring props that aren't part of the store */
+  const restoreValues = (values: Partial<TState>, source: UpdateSource) => {
+    const changed = (Object.keys(values) as StateProp[]).filter((context) => pendingSubscribers.has(context) && !Object.is(values[context], globalState.getValue(context)));
+    if (changed.length > 0) {
+      return dispatchUpdate(pick(values, changed), source);
+    }
+  };
+
+  /** The queries of each context, invalidated by `invalidate` */
+  const queries = new Map<StateProp, Set<{ invalidate(): Promise<void> }>>();
+
+  /**
+   * Rolls the props patched by an optimistic update back to their previous values, unless another update has changed them since the patch was applied.
+   * Such conflicts are kept, and reported to onConflict. The source identifies the invocation that applied the patch
+   */
+  const rollbackOptimistic = (previous: Partial<TState>, applied: Partial<TState>, source: UpdateSource, onConflict?: (conflicts: OptimisticConflict<TState>[]) => void) => {
+    const patched = (Object.keys(applied) as StateProp[]).filter((context) => pendingSubscribers.has(context));
+    const restored = patched.filter((context) => Object.is(globalState.getValue(context), applied[context]) && !Object.is(applied[context], previous[context]));
+    const conflicts = patched
+      .filter((context) => !Object.is(globalState.getValue(context), applied[context]))
+      .map((prop) => ({ prop, previous: previous[prop], optimistic: applied[prop], current: globalState.getValue(prop) }));
+
+    if (restored.length > 0) {
+      // Rollbacks bypass middleware, since they must not be vetoed
+      applyUpdate(pick(previous, restored), source);
+    }
+    if (conflicts.length > 0 && onConflict) {
+      onConflict(conflicts);
+    }
+  };
+
+  /** Listeners for the lifecycle events of actions */
+  const actionListeners = new Set<(event: ActionEvent<TState>) => void>();
+
+  const emitActionEvent = (event: ActionEvent<TState>) => {
+    for (const listener of actionListeners) {
+      try {
+        listener(event);
+      } catch {
+        // A failing listener (e.g. logging or telemetry) shouldn't affect the action
       }
-    });
-  }
+    }
+  };
+
+  /** Registered middleware, in the order they are invoked */
+  const middleware = [...((storeOptions.middleware || []) as Middleware<TState>[])];
 
-  /** Actual update method, handles resolving subscribers */
-  const dispatchUpdate = (value: Partial<TStore> | (() => Partial<TStore>)) => {
+  /** Actual update method, runs the update through the middleware before applying it */
+  const dispatchUpdate = (value: Partial<TState> | (() => Partial<TState>), source: UpdateSource = { type: "update" }): void | Promise<void> => {
     // If we have received a function, evaluate it before proceeding
-    /** The values to update */
-    const updatedValues = typeof value === "function" ? value() : value;
+    /** The values to update, values read in components are unwrapped from the proxies that track them */
+    const updatedValues = untrack(typeof value === "function" ? value() : value);
 
     // Make sure that value is not null, and that it is an object
     if (!updatedValues || typeof updatedValues !== "object") {
       return;
     }
 
+    // Objects from the store that have been mutated are never applied, since the mutation has already changed the store without notifying anyone
+    if (mutationGuard) {
+      mutationGuard.assertUnchanged(updatedValues);
+    }
+
+    // Redux dev tools may lock the state, in which case only the extension itself may change it
+    if (reduxDevTools && reduxDevTools.isLocked() && source.type !== "devtools") {
+      return;
+    }
+
+    // Copy the list, so that middleware added or removed during the update doesn't affect it
+    const chain = [...middleware];
+    const previousState = globalState.get();
+
+    const invoke = (index: number, update: Partial<TState>): void | Promise<void> => {
+      if (index === chain.length) {
+        return applyUpdate(update, source);
+      }
+      return chain[index]({ update, previousState, source, getState: globalState.get }, (next = update) => invoke(index + 1, next));
+    };
+
+    return invoke(0, updatedValues);
+  };
+
+  /**
+   * Dispatches an update that nobody waits for, such as those from `update`, the history, Redux dev tools and other tabs
+   *
+   * @remarks
+   *
+   * Once async middleware has been awaited, errors (such as a `ValidationError`) can no longer be thrown to the caller. Instead of
+   * becoming unhandled rejections, validation errors are reported to `onValidationError` if supplied, and all other errors are logged.
+   */
+  const dispatchDetached = (value: Partial<TState> | (() => Partial<TState>), source: UpdateSource = { type: "update" }) => {
+    const result = dispatchUpdate(value, source);
+    if (isPromise(result)) {
+      result.catch((error: unknown) => {
+        if (error instanceof ValidationError && storeOptions.onValidationError) {
+          storeOptions.onValidationError(error, source);
+        } else {
+          // eslint-disable-next-line no-console
+          console.error(error);
+        }
+      });
+    }
+  };
+
+  /** Compares the current and the updated value of a context, using the equality function of the context or the store if there is one */
+  const isEqual = (context: StateProp, current: unknown, updated: unknown) => {
+    const { equality } = storeOptions;
+    const equals = typeof equality === "function" ? equality : (equality?.[context as keyof T] as ((a: unknown, b: unknown) => boolean) | undefined) || Object.is;
+    return equals(current, updated);
+  };
+
+  /** Merges the values with the global state, and handles resolving subscribers */
+  const applyUpdate = (values: Partial<TState>, source: UpdateSource) => {
+    // Middleware may have transformed the update into something that isn't an object
+    if (!values || typeof values !== "object") {
+      return;
+    }
+
+    for (const context of Object.keys(values)) {
+      if (computed.has(context as ComputedProp)) {
+        throw Error(`Computed prop "${context}" can't be updated`);
+      }
+    }
+
+    // The history, Redux dev tools and other tabs may still hold values of props that have since been unregistered
+    const updatedValues = ["update", "action"].includes(source.type)
+      ? values
+      : pick(
+          values,
+          (Object.keys(values) as StateProp[]).filter((context) => pendingSubscribers.has(context))
+        );
+
+    // The entire update is rejected if any value is invalid
+    if (validate(updatedValues, source).length > 0) {
+      return;
+    }
+
+    const previousState = globalState.get();
+
+    /** Get a list of affected contexts from value object, values equal to the current ones are neither applied nor notified */
+    const contexts = (Object.keys(updatedValues) as StateProp[]).filter((context) => !isEqual(context, previousState[context], updatedValues[context]));
+    if (contexts.length === 0) {
+      return;
+    }
+    const changedValues = pick(updatedValues, contexts);
+
+    if (mutationGuard) {
+      mutationGuard.protect(changedValues);
+    }
+
     // Merge updated values with global state
-    globalState.update(updatedValues);
+    globalState.update(changedValues);
+
+    const recorder = updateRecorders.get(createdStore);
+    if (recorder) {
+      recorder(changedValues, source);
+    }
+
+    recordTransactionWrites(contexts, previousState, source);
+
+    // Undo and redo shouldn't be recorded, and neither should time-travelling in Redux dev tools, resets, restored snapshots or changes made in other tabs.
+    // Rollbacks amend the entry of the action or transaction they belong to, so that the failed changes can't be redone
+    if (source.type === "rollback") {
+      history.revert(contexts, globalState.get() as TState, getHistoryGroup(source));
+    } else if (!["history", "devtools", "sync", "reset", "restore"].includes(source.type)) {
+      history.record(contexts, previousState as TState, globalState.get() as TState, getHistoryGroup(source));
+    }
 
-    if (reduxDevTools) {
-      // Send a list of updates props, and the entire state, to Redux dev tools
-      // Passing the entire global state means that we can easily revert to a snapsho
-      reduxDevTools.send(Object.keys(value).join(" | "), globalState.get());
+    // Updates from Redux dev tools are time-travelling, and shouldn't be recorded as new entries
+    if (reduxDevTools && source.type !== "devtools") {
+      // Send the updated values, and the entire state, to Redux dev tools
+      // Passing the entire global state means that we can easily revert to a snapshot
+      reduxDevTools.send(createDevToolsAction(changedValues, source));
     }
 
-    /** Get a list of affected contexts from value object */
-    notifySubscribers(Object.keys(updatedValues) as StoreProp[]);
+    if (persistor) {
+      persistor.schedule(contexts);
+    }
+
+    // Changes received from other tabs are not sent back
+    if (sync && source.type !== "sync") {
+      sync.broadcast(changedValues);
+    }
+
+    notifySubscribers(contexts);
+  };
+
+  /** Set up synchronization with other tabs (if enabled), changes received from them are applied as regular updates */
+  const sync = storeOptions.sync
+    ? createSync<TState>(
+        (storeOptions.sync as unknown) as SyncOptions<TState>,
+        (prop) => globalState.getValue(prop),
+        (values) => dispatchDetached(values, { type: "sync" })
+      )
+    : null;
+
+  /** Set up undo/redo history, changes are only recorded if history is enabled */
+  const history = createHistory<TState>(storeOptions.history, (values, operation) => {
+    dispatchDetached(values, { type: "history", operation });
+  });
+
+  /** Set up persistence (if enabled), the persisted state is applied on top of the initial state once it has been read */
+  const persistor = storeOptions.persist
+    ? createPersistor(storeOptions.persist, globalState.get, (values) => {
+        // Ignore props that are invalid, or not part of the store. Props that are registered later are restored by register
+        const invalid = validate(values, { type: "hydration" });
+        const contexts = (Object.keys(values) as (keyof T)[]).filter((context) => pendingSubscribers.has(context) && !invalid.includes(context));
+        for (const context of contexts) {
+          globalState.setValue(context, values[context] as TState[StateProp]);
+        }
+        if (mutationGuard) {
+          mutationGuard.protect(pick(values, contexts));
+        }
+
+        if (reduxDevTools) {
+          reduxDevTools.send({ type: "@@HYDRATE", update: values });
+        }
+
+        notifySubscribers(contexts);
+      })
+    : null;
+
+  /** Subscribers waiting for the persisted state to be restored */
+  const hydrationSubscribers = new Set<Callback<boolean>>();
+
+  /** The state rendered on the server, used by hooks during hydration. Computed props are evaluated right away, since the state will change */
+  const serverSnapshot: TStore | null = storeOptions.serverState ? { ...getState() } : null;
+
+  /** Pending and error states are never rendered on the server */
+  const serverPendingState = pendingState.snapshot();
+  const serverErrorState = errorState.snapshot();
+
+  /** Set once a component using the store has mounted */
+  // eslint-disable-next-line immutable/no-let
+  let mounted = false;
+
+  /** Called once a component has mounted, i.e. it has been hydrated */
+  const endServerSnapshot = () => {
+    mounted = true;
+  };
+
+  /**
+   * Returns true if hooks should render the server snapshot
+   *
+   * @remarks
+   *
+   * React 18 only reads the server snapshot of a component while hydrating that component, which may happen after others have mounted
+   * (e.g. Suspense boundaries that hydrate later). Before React 18, the shim reads it whenever a component mounts, but hydration has
+   * completed once the first component has mounted, so components mounted after that render the current state right away.
+   */
+  const isHydrating = () => serverSnapshot !== null && (hydratesSelectively || !mounted);
+
+  /** The snapshot of the state read by hooks, which must be the same object for as long as the state is unchanged */
+  // eslint-disable-next-line immutable/no-let
+  let stateSnapshot: { base: Readonly<TState>; state: TStore } | null = null;
+
+  const getStateSnapshot = () => {
+    const base = globalState.snapshot();
+    if (!stateSnapshot || stateSnapshot.base !== base) {
+      stateSnapshot = { base, state: defineComputed({ ...base } as TStore) };
+    }
+    return stateSnapshot.state;
   };
 
+  // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+  const getServerStateSnapshot = () => (isHydrating() ? serverSnapshot! : getStateSnapshot());
+  const getPendingSnapshot = () => pendingState.snapshot();
+  const getServerPendingSnapshot = () => (isHydrating() ? serverPendingState : pendingState.snapshot());
+  const getErrorSnapshot = () => errorState.snapshot();
+  const getServerErrorSnapshot = () => (isHydrating() ? serverErrorState : errorState.snapshot());
+
+  if (persistor) {
+    persistor.onHydrated(() => hydrationSubscribers.forEach((subscriber) => subscriber(true)));
+    persistor.hydrate();
+  }
+
   /** Internal method for setting up and removing subscriptions */
   const internalSubscribe = (contexts: StoreProp[], subscriber: Callback) => {
     /** For each supplied context, set up a context->[callback] mapping */
     for (const context of contexts) {
       // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
       subscribers.get(context)!.add(subscriber);
+      // Computed props need to be evaluated once to know which contexts they depend on
+      if (computed.has(context as ComputedProp)) {
+        // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+        const entry = computed.get(context as ComputedProp)!;
+        const value = readComputed(context as ComputedProp);
+        // The first subscriber defines the value that changes are compared against
+        // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+        if (subscribers.get(context)!.size === 1) {
+          // eslint-disable-next-line immutable/no-mutation
+          entry.published = value;
+        }
+      }
     }
 
     /** Return a function that can be used to remove subscriptions */
     return () => {
       for (const context of contexts) {
-        // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
-        subscribers.get(context)!.delete(subscriber);
+        subscribers.get(context)?.delete(subscriber);
       }
     };
   };
 
+  /** Splits a dotted path into keys, store props that contain the separator are never split */
+  const toPath = (path: StoreProp | string | PathKeys): PathKeys => (Array.isArray(path) ? path : subscribers.has(path as StoreProp) ? [path as string] : String(path).split(PATH_SEPARATOR));
+
+  /** Subscribes to a nested path, the subscriber is invoked with the state whenever the value at the path changes */
+  const subscribePath = (path: PathKeys, subscriber: Callback) => {
+    const context = path[0] as StoreProp;
+    if (!subscribers.has(context)) {
+      throw Error(`"${path.join(PATH_SEPARATOR)}" is not a path within the store`);
+    }
+
+    // Computed props are compared as a whole, since the previous value at a path within them isn't known
+    if (path.length === 1 || computed.has(context as ComputedProp)) {
+      return internalSubscribe([context], subscriber);
+    }
+
+    if (!pathSubscribers.has(context)) {
+      pathSubscribers.set(context, new Set());
+    }
+    const subscription = { path, value: getIn(globalState.getValue(context as StateProp), path.slice(1)), subscriber };
+    // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+    pathSubscribers.get(context)!.add(subscription);
+    return () => {
+      pathSubscribers.get(context)?.delete(subscription);
+    };
+  };
+
+  /**
+   * Subscribes a hook to the deepest of the supplied (dotted) paths. A hook subscribes once its component has mounted, at which point hydration has completed
+   *
+   * @param whole Paths whose keys have been enumerated, these are subscribed to even if deeper paths have been read as well
+   */
+  const subscribeHook = (paths: string[], onStoreChange: () => void, whole = new Set<string>()) => {
+    endServerSnapshot();
+
+    /** Paths that have been read only to reach a deeper path */
+    const traversed = new Set<string>();
+    for (const path of paths) {
+      // eslint-disable-next-line immutable/no-let
+      for (let index = path.lastIndexOf(PATH_SEPARATOR); index > 0; index = path.lastIndexOf(PATH_SEPARATOR, index - 1)) {
+        traversed.add(path.substring(0, index));
+      }
+    }
+
+    const unsubscribers = paths
+      // Props read from the proxy may not be store props, e.g. if the state is inspected by a development tool
+      .filter((path) => subscribers.has(path as StoreProp) || (subscribers.has(path.split(PATH_SEPARATOR)[0] as StoreProp) && path.includes(PATH_SEPARATOR)))
+      .filter((path) => whole.has(path) || !traversed.has(path))
+      .map((path) => subscribePath(toPath(path), onStoreChange));
+
+    return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
+  };
+
+  /** Maps the proxies created by trackNested to the values they wrap */
+  const trackedValues = new WeakMap<Record<string, unknown>, unknown>();
+
+  const isTracked = (value: unknown): value is Record<string, unknown> => !!value && typeof value === "object" && trackedValues.has(value as Record<string, unknown>);
+
+  /** Objects and arrays known not to contain any of the proxies created by trackNested, so that they aren't traversed again */
+  const untracked = new WeakSet<Record<string, unknown>>();
+
+  /** Replaces the proxies created by trackNested, at any depth, with the values they wrap. Only objects and arrays that contain proxies are copied */
+  const unwrap = (value: unknown, visiting: Set<unknown>): unknown => {
+    if (isTracked(value)) {
+      return trackedValues.get(value);
+    }
+    if (!isTraversable(value) || untracked.has(value) || visiting.has(value)) {
+      return value;
+    }
+
+    visiting.add(value);
+    const copy = Object.keys(value).reduce<Record<string, unknown> | null>((result, key) => {
+      const child = unwrap(value[key], visiting);
+      if (Object.is(child, value[key])) {
+        return result;
+      }
+      const target = result || ((Array.isArray(value) ? [...value] : { ...value }) as Record<string, unknown>);
+      // eslint-disable-next-line immutable/no-mutation
+      target[key] = child;
+      return target;
+    }, null);
+    visiting.delete(value);
+
+    const unwrapped = copy || value;
+    untracked.add(unwrapped);
+    return unwrapped;
+  };
+
+  /** Unwraps values read in a component from the proxies that track them, so that the proxies never end up in the state */
+  const untrack = (values: Partial<TState>) => unwrap(values, new Set()) as Partial<TState>;
+
+  /** Records the paths read by a component, see trackNested */
+  interface PathTracker {
+    /** The (dotted) paths that have been read */
+    paths: Set<string>;
+    /** Paths that are subscribed to as a whole, i.e. explicit contexts and objects whose keys have been enumerated */
+    whole: Set<string>;
+    /** The proxies created for each path, reused for as long as the value at the path is the same */
+    proxies: Map<string, { value: Record<string, unknown>; proxy: Record<string, unknown> }>;
+    /** Paths are only tracked during render, afterwards the proxies return the values as they are */
+    active: boolean;
+  }
+
+  /** Wraps plain objects and arrays in proxies that record the nested paths read within them */
+  const trackNested = (value: unknown, path: string, tracker: PathTracker): unknown => {
+    if (!tracker.active || !isTraversable(value)) {
+      return value;
+    }
+
+    const cached = tracker.proxies.get(path);
+    if (cached && cached.value === value) {
+      return cached.proxy;
+    }
+
+    const proxy = new Proxy(value, {
+      get(target, prop) {
+        const child = target[prop as string];
+        // Don't track inherited props, such as array methods, they read the tracked props themselves
+        if (!tracker.active || typeof prop !== "string" || !Object.prototype.hasOwnProperty.call(target, prop)) {
+          return child;
+        }
+
+        const childPath = `${path}${PATH_SEPARATOR}${prop}`;
+        tracker.paths.add(childPath);
+        // Proxies may not return anything but the actual value of read-only props
+        return Object.isFrozen(target) ? child : trackNested(child, childPath, tracker);
+      },
+      has(target, prop) {
+        if (tracker.active) {
+          tracker.whole.add(path);
+        }
+        return prop in target;
+      },
+      ownKeys(target) {
+        if (tracker.active) {
+          tracker.whole.add(path);
+        }
+        return Reflect.ownKeys(target);
+      }
+    });
+    trackedValues.set(proxy, value);
+    tracker.proxies.set(path, { value, proxy });
+    return proxy;
+  };
+
+  /** Invokes a selector with a proxy of the state, recording which contexts the selector reads */
+  const trackSelector = <TResult>(selector: (store: TStore) => TResult, state: TStore, contexts: Set<StoreProp>) =>
+    selector(
+      new Proxy(state, {
+        get(target, prop) {
+          // Only track actual store props, to avoid subscribing to things like toJSON
+          if (typeof prop === "string" && subscribers.has(prop as StoreProp)) {
+            contexts.add(prop as StoreProp);
+          }
+          return target[prop as StoreProp];
+        }
+      })
+    );
+
   /** Hook that ensures that a callback is only called if the component still is mounted */
   function useIfMounted<T extends unknown[]>(action: (...args: T) => void) {
     /** Keep track if the component is mounted */
@@ -205,34 +1221,384 @@ export default function createStore<T>(initialState: Required<T>, useReduxDevToo
       if (isMounted.current) {
         action(...args);
       }
-    }).current;
-  }
-
-  const createdStore = {
-    /** Helper function to create "prebaked" update methods */
-    action<T extends unknown[]>(resolver: StoreUpdate<T>, affectedContexts: StoreProp[] = []) {
-      return async (...args: T) => {
-        // Mark the supplied contexts as pending
-        createdStore.pending(affectedContexts, true);
-        // The purpose of this try-block is to ensure that all pending loaders are cleared up regardless of success or failure
-        try {
-          // Resolve the promise from the resolver
-          const value = await Promise.resolve(resolver(globalState.get(), ...args));
-
-          // If the resolve returned something that wasn't undefined
-          if (value) {
-            dispatchUpdate(value);
+    }).current;
+  }
+
+  const createdStore = {
+    /**
+     * Helper function to create "prebaked" update methods
+     *
+     * @remarks
+     *
+     * `getActionContext(store)` returns an `AbortSignal` for the invocation, which is aborted if the invocation is superseded
+     * (see `ActionOptions.concurrency`) or the action is cancelled. Results from aborted invocations are discarded.
+     * Invoke the action through `withSignal(signal)` to abort the invocation when the signal is aborted as well.
+     */
+    action<T extends unknown[]>(resolver: StoreUpdate<T>, affectedContexts: StateProp[] = [], options: ActionOptions<TState, T> = {}) {
+      const { concurrency = "takeEvery" } = options;
+
+      /** Identifies errors caused by this action, so that a successful invocation only clears its own errors */
+      const owner = {};
+
+      /** Controllers for the invocations currently running */
+      const running = new Set<AbortController>();
+
+      /** The invocation currently running, for takeLeading/exhaust, or the latest one, for throttle */
+      // eslint-disable-next-line immutable/no-let
+      let leading: { promise: Promise<typeof globalState>; started: number } | null = null;
+
+      /** The invocation waiting to be run, for debounce */
+      // eslint-disable-next-line immutable/no-let
+      let debounced: { timer: ReturnType<typeof setTimeout>; waiting: ((run: Promise<typeof globalState>) => void)[] } | null = null;
+
+      const run = async (args: unknown[], external?: AbortSignal) => {
+        /** The invocations superseded by this one, which are aborted once it has been marked as pending */
+        const superseded = concurrency === "takeLatest" || (typeof concurrency === "object" && "debounce" in concurrency) ? [...running] : [];
+
+        const controller = createAbortController();
+        const abort = () => controller.abort();
+        if (external) {
+          if (external.aborted) {
+            controller.abort();
+          }
+          external.addEventListener("abort", abort);
+        }
+
+        running.add(controller);
+        const invocation = { name: options.name, args, affectedContexts };
+        /** The sources of the updates made by the invocation, which belong to the transactions open when it was invoked */
+        const source: UpdateSource = { type: "action", name: options.name, args };
+        const rollbackSource: UpdateSource = { type: "rollback" };
+        const owners = new Set(transactions);
+        sourceTransactions.set(source, owners);
+        sourceTransactions.set(rollbackSource, owners);
+        historyGroups.set(source, source);
+        historyGroups.set(rollbackSource, source);
+        const started = Date.now();
+        emitActionEvent({ type: "start", ...invocation });
+        /** How the invocation ended, sent to action listeners once its pending status has been cleared */
+        // eslint-disable-next-line immutable/no-let
+        let outcome: ActionEvent<TState> = { type: "cancel", ...invocation, duration: 0 };
+
+        // The updates made by the invocation are grouped into a single history entry
+        history.beginGroup(source);
+        // Mark the supplied contexts as pending
+        createdStore.pending(affectedContexts, true);
+        affectedContexts.forEach((context) => pendingActions.set(context, (pendingActions.get(context) || 0) + 1));
+        const resets = new Map(affectedContexts.map((context) => [context, pendingResets.get(context) || 0]));
+        // eslint-disable-next-line immutable/no-let
+        let released = false;
+        /** Clears the pending status of the invocation, as soon as it is aborted or once it has ended, whichever comes first */
+        const release = () => {
+          if (!released) {
+            released = true;
+            // Contexts reset since the invocation started have already been cleared
+            const current = affectedContexts.filter((context) => resets.get(context) === (pendingResets.get(context) || 0));
+            current.forEach((context) => pendingActions.set(context, (pendingActions.get(context) || 0) - 1));
+            if (current.length > 0) {
+              createdStore.pending(current, false);
+            }
+          }
+        };
+        controller.signal.addEventListener("abort", release);
+        if (controller.signal.aborted) {
+          release();
+        }
+        superseded.forEach((previous) => previous.abort());
+        /** The values of the props patched by the optimistic update, before and after it was applied */
+        // eslint-disable-next-line immutable/no-let
+        let optimistic: { previous: Partial<TState>; applied: Partial<TState> } | null = null;
+        // The purpose of this try-block is to ensure that all pending loaders are cleared up regardless of success or failure
+        try {
+          if (options.optimistic) {
+            const patch = options.optimistic(getState(), ...(args as T));
+            const patched = Object.keys(patch) as StateProp[];
+            const previous = pick(globalState.get(), patched);
+            await dispatchUpdate(patch, source);
+            // Middleware may have transformed or vetoed the patch
+            optimistic = { previous, applied: pick(globalState.get(), patched) };
+          }
+
+          // eslint-disable-next-line immutable/no-let
+          let update: Partial<TState> | undefined;
+          const resolve = async () => {
+            // Resolve the promise from the resolver
+            // The resolver may have been replaced by mockAction in tests
+            const currentResolver = (mockedResolvers.get(invoke) || resolver) as (store: TStore, ...args: unknown[]) => ReturnType<StoreUpdate<T>>;
+            /** The state passed to the resolver identifies the invocation, see getActionContext */
+            const callResolver = ({ attempt, lastError }: RetryState) => {
+              const state = getState();
+              actionContexts.set(state, { signal: controller.signal, attempt, lastError });
+              const call = () => currentResolver(state, ...args);
+              // Only the updates made before the resolver first awaits something are batched, since updates made while it is waiting can't be
+              // told apart from those made elsewhere. Wrapping the result keeps the batch from waiting for the promise
+              return Promise.resolve(options.batch ? runBatched(() => ({ result: call() })).result : call());
+            };
+            // Every attempt receives the current state, the affected contexts stay pending in between
+            const value = await (options.retry
+              ? withRetry(options.retry, controller.signal, callResolver, (attempt, error, delay) => emitActionEvent({ type: "retry", ...invocation, attempt, error, delay }))
+              : callResolver({ attempt: 1, lastError: undefined }));
+            update = value || undefined;
+
+            // If the resolve returned something that wasn't undefined, and the invocation hasn't been aborted in the meantime
+            if (value && !controller.signal.aborted) {
+              await dispatchUpdate(value, source);
+            }
+          };
+
+          await resolve();
+
+          if (controller.signal.aborted && optimistic) {
+            // Results of aborted invocations are discarded, and so is the optimistic patch
+            rollbackOptimistic(optimistic.previous, optimistic.applied, rollbackSource, options.onConflict);
+          } else if (!controller.signal.aborted) {
+            dispatchError(affectedContexts, undefined, owner);
+            outcome = { type: "success", ...invocation, duration: Date.now() - started, update };
+          }
+        } catch (error) {
+          if (optimistic) {
+            rollbackOptimistic(optimistic.previous, optimistic.applied, rollbackSource, options.onConflict);
+          }
+          // Errors caused by aborting the invocation (such as an aborted fetch) are expected, and not passed on
+          if (!controller.signal.aborted) {
+            dispatchError(affectedContexts, error, owner);
+            outcome = { type: "error", ...invocation, duration: Date.now() - started, error };
+            throw error;
+          }
+        } finally {
+          running.delete(controller);
+          controller.signal.removeEventListener("abort", release);
+          if (external) {
+            external.removeEventListener("abort", abort);
+          }
+          history.endGroup(source);
+          // Ensure that pending is reset regardless of outcome
+          release();
+          emitActionEvent(outcome.type === "cancel" ? { ...outcome, duration: Date.now() - started } : outcome);
+        }
+        return globalState;
+      };
+
+      /** Runs (or schedules) an invocation according to the concurrency of the action */
+      const start = (args: T, external?: AbortSignal): Promise<typeof globalState> => {
+        if (concurrency === "takeLeading" || concurrency === "exhaust") {
+          if (!leading) {
+            const promise = run(args, external);
+            const clear = () => {
+              leading = null;
+            };
+            promise.then(clear, clear);
+            leading = { promise, started: Date.now() };
+          }
+          return leading.promise;
+        }
+
+        if (typeof concurrency === "object" && "throttle" in concurrency) {
+          if (!leading || Date.now() - leading.started >= concurrency.throttle) {
+            leading = { promise: run(args, external), started: Date.now() };
+          }
+          return leading.promise;
+        }
+
+        if (typeof concurrency === "object" && "debounce" in concurrency) {
+          const waiting = debounced ? debounced.waiting : [];
+          if (debounced) {
+            clearTimeout(debounced.timer);
+          }
+
+          return new Promise((resolve) => {
+            waiting.push((promise) => resolve(promise));
+            debounced = {
+              waiting,
+              timer: setTimeout(() => {
+                debounced = null;
+                const promise = run(args, external);
+                waiting.forEach((callback) => callback(promise));
+              }, concurrency.debounce)
+            };
+          });
+        }
+
+        return run(args, external);
+      };
+
+      const invoke = (...args: T) => start(args);
+
+      return Object.assign(invoke, {
+        /** Returns the action, invoked such that aborting the signal aborts the invocation as well */
+        withSignal(signal: AbortSignal) {
+          return (...args: T) => start(args, signal);
+        },
+        /** Aborts all running invocations, and drops any invocation waiting to be run */
+        cancel() {
+          if (debounced) {
+            clearTimeout(debounced.timer);
+            debounced.waiting.forEach((callback) => callback(Promise.resolve(globalState)));
+            debounced = null;
+          }
+          running.forEach((controller) => controller.abort());
+        }
+      });
+    },
+    /**
+     * Creates a query, which fetches data into a single context, built on `action`
+     *
+     * @remarks
+     *
+     * Results are cached by the arguments they were requested with. Requesting the same arguments while a request is in flight
+     * reuses that request, and stale results are served while they are fetched again. The context is marked as pending, and
+     * errors are recorded against it, like for any other action. A new request aborts the one in flight for other arguments.
+     *
+     * ```ts
+     * const users = query("user", (store, id: number) => api.getUser(id), { cacheTime: 30000 });
+     * await users.fetch(1);
+     * users.getStatus(); // { isStale: false, lastUpdated: ... }
+     * ```
+     */
+    query<K extends StateProp, A extends unknown[]>(context: K, fetcher: (store: TStore, ...args: A) => TState[K] | Promise<TState[K]>, options: QueryOptions<A> = {}) {
+      assertContexts([context]);
+      const query = createQuery<TStore, TState[K], A>(fetcher, options, {
+        action: (resolver) =>
+          createdStore.action(async (state, ...args: unknown[]) => (({ [context]: await resolver(state, ...args) } as unknown) as Partial<TState>), [context], {
+            name: options.name,
+            concurrency: "takeLatest"
+          }),
+        get: () => globalState.getValue(context) as TState[K],
+        apply: (value, args) => dispatchUpdate(({ [context]: value } as unknown) as Partial<TState>, { type: "action", name: options.name, args }),
+        // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+        isSubscribed: () => subscribers.get(context)!.size > 0 || (pathSubscribers.get(context)?.size || 0) > 0
+      });
+
+      if (!queries.has(context)) {
+        queries.set(context, new Set());
+      }
+      // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+      queries.get(context)!.add(query);
+      return query;
+    },
+    /** Marks the cached results of the queries of the context as stale, and fetches them again if the context is subscribed to, e.g. by mounted components */
+    invalidate<TContext extends StateProp>(context: TContext) {
+      assertContexts([context]);
+      return Promise.all(Array.from(queries.get(context) || [], (query) => query.invalidate())).then(() => undefined);
+    },
+    /**
+     * Adds middleware, which is invoked for every update after the middleware already added
+     *
+     * @returns A function that removes the middleware
+     */
+    use(mw: Middleware<TState>) {
+      middleware.push(mw);
+      return () => {
+        const index = middleware.indexOf(mw);
+        if (index !== -1) {
+          middleware.splice(index, 1);
+        }
+      };
+    },
+    /**
+     * Adds a listener for the lifecycle events (`start`, `success`, `error` and `cancel`) of every action, e.g. for logging or telemetry
+     *
+     * @remarks
+     *
+     * Errors thrown by the listener are ignored.
+     *
+     * @returns A function that removes the listener
+     */
+    onAction(listener: (event: ActionEvent<TState>) => void) {
+      actionListeners.add(listener);
+      return () => {
+        actionListeners.delete(listener);
+      };
+    },
+    /** Undo/redo for the parts of the store tracked by the `history` option */
+    history: {
+      undo() {
+        history.undo();
+      },
+      redo() {
+        history.redo();
+      },
+      get canUndo() {
+        return history.canUndo();
+      },
+      get canRedo() {
+        return history.canRedo();
+      },
+      /** Removes all undo and redo entries */
+      clear() {
+        history.clear();
+      }
+    },
+    /** Cross-tab synchronization, set up by the `sync` option */
+    sync: {
+      /** Stops sending changes to, and receiving changes from, other tabs, and closes the default transport */
+      close() {
+        if (sync) {
+          sync.close();
+        }
+      }
+    },
+    /**
+     * Runs the callback, and notifies subscribers once, of all contexts updated within it, when it completes
+     *
+     * @remarks
+     *
+     * If the callback returns a promise, notifications are deferred until the promise settles. Note that this means that
+     * any update made while waiting, even those made outside of the callback, is part of the batch.
+     */
+    batch<R>(callback: () => R): R {
+      return runBatched(callback);
+    },
+    /**
+     * Works like `batch`, but if the callback throws (or the promise it returns rejects), every context updated within it is
+     * restored to the value it had before the callback was invoked, and the error is re-thrown
+     *
+     * @remarks
+     *
+     * Changes made by actions invoked before the transaction, by other tabs, by Redux dev tools or by undo and redo aren't part of it,
+     * and are kept even if they overwrote a value written by the transaction. Note that any other update made while an async callback
+     * is waiting is part of the transaction. All changes made within the transaction are recorded as a single history entry, which is
+     * amended (or dropped) when they are rolled back.
+     */
+    transaction<R>(callback: () => R): R {
+      const writes: TransactionWrites = new Map();
+      transactions.add(writes);
+      history.beginGroup(writes);
+      return runBatched(callback, (failed) => {
+        transactions.delete(writes);
+        if (failed) {
+          const restored = Array.from(writes.keys()).filter(
+            // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+            (context) => pendingSubscribers.has(context) && Object.is(globalState.getValue(context), writes.get(context)!.value)
+          );
+          if (restored.length > 0) {
+            const values: Partial<TState> = {};
+            for (const context of restored) {
+              // eslint-disable-next-line immutable/no-mutation, @typescript-eslint/no-non-null-assertion
+              values[context] = writes.get(context)!.previous as Partial<TState>[StateProp];
+            }
+            const rollbackSource: UpdateSource = { type: "rollback" };
+            historyGroups.set(rollbackSource, writes);
+            // Rollbacks bypass middleware, since they must not be vetoed
+            applyUpdate(values, rollbackSource);
           }
-        } finally {
-          // Ensure that pending is reset regardless of outcome
-          createdStore.pending(affectedContexts, false);
         }
-        return globalState;
-      };
+        history.endGroup(writes);
+      });
     },
     /** Returns the entire global state */
     get() {
-      return globalState.get();
+      return getState();
+    },
+    /** Returns true once the persisted state has been restored (always true if persistence isn't enabled) */
+    isHydrated() {
+      return persistor ? persistor.isHydrated() : true;
+    },
+    /** Immediately writes any throttled changes to the persistence storage */
+    flush() {
+      if (persistor) {
+        persistor.flush();
+      }
     },
     /** Updates the pending status of the specified context */
     /**
@@ -256,14 +1622,22 @@ export default function createStore<T>(initialState: Required<T>, useReduxDevToo
      * });
      * ```
      */
-    pending<TContext extends StoreProp>(contexts: TContext | TContext[], state: boolean) {
+    pending<TContext extends StateProp>(contexts: TContext | TContext[], state: boolean) {
       // Ensure that contextList is an array, no matter what
       const contextList = Array.isArray(contexts) ? contexts : [contexts];
+      assertContexts(contextList);
       // Internal set to ensure that we only call each callback once
       const pendingSubscribersInternal = new Set<Callback<PendingState>>();
 
       // For each context in list
       for (const context of contextList) {
+        // Operations that were running when the context was reset have already been cleared
+        const released = releasedPending.get(context) || 0;
+        if (!state && released > 0) {
+          releasedPending.set(context, released - 1);
+          continue;
+        }
+
         // Increment or decrement as necessary
         const newValue = pendingCount.getValue(context) + (state ? 1 : -1);
         // Value should never drop below 0
@@ -289,9 +1663,173 @@ export default function createStore<T>(initialState: Required<T>, useReduxDevToo
         }
       }
     },
-    /** Sets up a subscription for a single global state context */
-    subscribe<TContext extends StoreProp>(context: TContext, callback: Callback<TStore[TContext]>): () => void {
-      return internalSubscribe([context], (state: TStore) => callback(state[context]));
+    /**
+     * Restores the specified contexts (or the entire store) to their initial values, and clears their pending status and errors
+     *
+     * @remarks
+     *
+     * Operations still running when a context is reset no longer mark it as pending, and their own calls to `pending(context, false)` are ignored.
+     * Resetting the entire store also clears the undo history.
+     */
+    reset<TContext extends StateProp>(contexts?: TContext[]) {
+      const resetContexts = contexts || globalState.keys();
+      const result = restoreValues(pick(initialValues, resetContexts), { type: "reset" });
+
+      const pendingSubscribersInternal = new Set<Callback<PendingState>>();
+      for (const context of resetContexts) {
+        const count = pendingCount.getValue(context);
+        if (count > 0) {
+          // Actions skip their own call once they end, so only the calls made by other operations are ignored
+          releasedPending.set(context, (releasedPending.get(context) || 0) + count - (pendingActions.get(context) || 0));
+          pendingResets.set(context, (pendingResets.get(context) || 0) + 1);
+          pendingActions.delete(context);
+          pendingCount.setValue(context, 0);
+          pendingState.setValue(context, false);
+          // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+          pendingSubscribers.get(context)!.forEach((callback) => pendingSubscribersInternal.add(callback));
+        }
+      }
+      const currentPendingState = pendingState.get();
+      pendingSubscribersInternal.forEach((subscriber) => subscriber(currentPendingState));
+
+      dispatchError(
+        resetContexts.filter((context) => errorState.getValue(context) !== undefined),
+        undefined
+      );
+
+      if (!contexts) {
+        history.clear();
+      }
+      return result;
+    },
+    /** Returns a copy of the state (without computed props), which can be passed to `restore` later */
+    snapshot(): Readonly<TState> {
+      return globalState.get();
+    },
+    /** Restores the values of a snapshot, only the contexts whose values differ from the current ones are updated and notified */
+    restore(snapshot: Readonly<Partial<TState>>) {
+      return restoreValues(snapshot, { type: "restore" });
+    },
+    /**
+     * Adds a prop to the store at runtime, e.g. when a lazily loaded feature needs state of its own
+     *
+     * @remarks
+     *
+     * The props that may be registered are declared by the third type parameter of `createStore`:
+     *
+     * ```ts
+     * const store = createStore<State, {}, { editor: EditorState }>(initialState);
+     * store.register("editor", { text: "" });
+     * ```
+     *
+     * Register the prop before rendering components that read it. If the prop has been persisted, the persisted value is restored.
+     */
+    register<K extends keyof L>(key: K, initialValue: L[K]) {
+      const context = (key as unknown) as StateProp;
+      if (pendingSubscribers.has(context) || computed.has((key as unknown) as ComputedProp)) {
+        throw Error(`"${String(key)}" is already part of the store`);
+      }
+
+      // eslint-disable-next-line immutable/no-mutation
+      initialValues[context] = (initialValue as unknown) as TState[StateProp];
+      // The persisted value, if the prop was persisted before it was unregistered or the page was reloaded
+      const persisted = (persistor ? persistor.getStored(context as keyof T) : {}) as Partial<TState>;
+      const value = (context in persisted ? persisted[context] : initialValue) as TState[StateProp];
+      globalState.setValue(context, value);
+      if (mutationGuard) {
+        mutationGuard.protect({ [context]: value });
+      }
+      addContext(context);
+
+      if (reduxDevTools) {
+        reduxDevTools.send({ type: "@@REGISTER", update: { [key]: value } });
+      }
+    },
+    /** Removes a prop added with `register` from the store, along with its subscribers, pending status and error */
+    unregister<K extends keyof L>(key: K) {
+      const context = (key as unknown) as StateProp;
+      assertContexts([context]);
+      if (context in initialState) {
+        throw Error(`"${String(key)}" is part of the initial state, and can't be unregistered`);
+      }
+
+      // Subscribers are notified that the prop is gone, before they are removed
+      globalState.delete(context);
+      // eslint-disable-next-line immutable/no-mutation
+      delete initialValues[context];
+      notifySubscribers([context]);
+
+      subscribers.delete(context);
+      pathSubscribers.delete(context);
+      pendingSubscribers.delete(context);
+      errorSubscribers.delete(context);
+      errorOwners.delete(context);
+      releasedPending.delete(context);
+      pendingResets.delete(context);
+      pendingActions.delete(context);
+      queries.delete(context);
+      pendingCount.delete(context);
+      pendingState.delete(context);
+      errorState.delete(context);
+
+      if (reduxDevTools) {
+        reduxDevTools.send({ type: "@@UNREGISTER", key });
+      }
+    },
+    /** Returns the current pending status of each context */
+    getPending() {
+      return pendingState.get();
+    },
+    /** Sets up a subscription for the pending status of a single global state context */
+    subscribePending<TContext extends StateProp>(context: TContext, callback: Callback<boolean>): () => void {
+      assertContexts([context]);
+      const subscriber = (state: PendingState) => callback(state[context]);
+      // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+      pendingSubscribers.get(context)!.add(subscriber);
+      return () => {
+        pendingSubscribers.get(context)?.delete(subscriber);
+      };
+    },
+    /**
+     * Sets or clears (by passing undefined) the error of one or more parts of the global state
+     *
+     * @remarks
+     *
+     * Errors thrown by an `action` are set automatically for its affected contexts, and cleared when the action next succeeds.
+     */
+    setError<TContext extends StateProp>(contexts: TContext | TContext[], error: unknown) {
+      dispatchError(Array.isArray(contexts) ? contexts : [contexts], error);
+    },
+    /** Returns the current error of each context, undefined if there is none */
+    getErrors() {
+      return errorState.get();
+    },
+    /** Sets up a subscription for errors of a single global state context */
+    subscribeErrors<TContext extends StateProp>(context: TContext, callback: Callback<unknown>): () => void {
+      assertContexts([context]);
+      const subscriber = (state: ErrorState) => callback(state[context]);
+      // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+      errorSubscribers.get(context)!.add(subscriber);
+      return () => {
+        errorSubscribers.get(context)?.delete(subscriber);
+      };
+    },
+    /** Sets up a subscription for a single global state context, or a nested path within it */
+    subscribe: ((context: StoreProp | PathKeys, callback: Callback<unknown>) => {
+      const path = toPath(context);
+      return subscribePath(path, (state: TStore) => callback(getIn(state, path)));
+    }) as PathSubscribe<TStore>,
+    /**
+     * Sets up a subscription for a dotted path (`"user.preferences.theme"`) within the global state
+     *
+     * @remarks
+     *
+     * Dotted paths can't be type-checked before TypeScript 4.1, so the path is only validated when subscribing, and the value isn't typed.
+     * Pass the path as an array to `subscribe` to have it type-checked.
+     */
+    subscribePath(path: string, callback: (value: unknown) => void): () => void {
+      const keys = toPath(path);
+      return subscribePath(keys, (state: TStore) => callback(getIn(state, keys)));
     },
     /**
      * Update one or more parts of the global state.
@@ -311,9 +1849,28 @@ export default function createStore<T>(initialState: Required<T>, useReduxDevToo
      * });
      * ```
      */
-    update<TContext extends StoreProp>(value: Pick<TStore, TContext>) {
-      dispatchUpdate(value as Partial<TStore>);
+    update<TContext extends StateProp>(value: Pick<TState, TContext>) {
+      dispatchDetached(value as Partial<TState>);
     },
+    /**
+     * Updates a nested value in the global state, only notifying subscribers of the store prop and of the paths that have changed
+     *
+     * @remarks
+     *
+     * Objects and arrays along the path are copied, so that everything else within the store prop keeps its identity:
+     *
+     * ```ts
+     * setIn(["user", "preferences", "theme"], "dark");
+     * ```
+     */
+    setIn: ((path: PathKeys, value: unknown) => {
+      const [context, ...rest] = path as [StateProp, ...PathKeys];
+      // Computed props can't be updated
+      if (!globalState.keys().includes(context)) {
+        throw Error(`"${path.join(PATH_SEPARATOR)}" is not a path within the store`);
+      }
+      dispatchDetached({ [context]: setIn(globalState.getValue(context), rest, value) } as Partial<TState>);
+    }) as SetIn<TState>,
     /**
      * Subscribe to boolean updates for **async operations** in parts of the global state
      *
@@ -333,42 +1890,212 @@ export default function createStore<T>(initialState: Required<T>, useReduxDevToo
      * ```
      * See documentation for `pending()` for more details
      */
-    usePending<T extends StoreProp>(...explicitContexts: T[]) {
-      const [localPending, localDispatch] = useState(() => pendingState.get());
+    usePending<T extends StateProp>(...explicitContexts: T[]) {
+      const contexts = useRef(new Set<StateProp>(explicitContexts));
 
-      const subscriber = useIfMounted((value: PendingState) => {
-        localDispatch(value);
-      });
+      /** The contexts are read when subscribing, i.e. after the first render has recorded the props it read */
+      const subscribe = useMemo(
+        () => (onStoreChange: () => void) => {
+          endServerSnapshot();
+          const _contexts = Array.from(contexts.current);
+          // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+          _contexts.forEach((context) => pendingSubscribers.get(context)!.add(onStoreChange));
+          return () => {
+            _contexts.forEach((context) => pendingSubscribers.get(context)?.delete(onStoreChange));
+          };
+        },
+        [contexts]
+      );
 
-      const contexts = useRef(new Set<StoreProp>(explicitContexts));
+      const localPending = useSyncExternalStore(subscribe, getPendingSnapshot, getServerPendingSnapshot);
 
       const proxy = useMemo(
         () =>
           new Proxy(localPending, {
             get(_, prop) {
               if (typeof prop === "string") {
-                contexts.current.add(prop as StoreProp);
+                contexts.current.add(prop as StateProp);
               }
-              return localPending[prop as StoreProp];
+              return localPending[prop as StateProp];
             }
           }),
         [localPending]
       );
 
-      useEffect(() => {
-        const _contexts = Array<StoreProp>();
-        contexts.current.forEach((context) => {
-          _contexts.push(context);
+      return proxy;
+    },
+    /**
+     * Subscribe to errors of **async operations** in parts of the global state
+     *
+     * @remarks
+     *
+     * How to use `useErrors` within a functional component:
+     *
+     * ```tsx
+     * export const Comp = () => {
+     *  const errors = useErrors();
+     *  ...
+     *  if(errors.storeVar1)
+     *      return <ErrorMessage error={errors.storeVar1} />;
+     *  ...
+     * }
+     * ```
+     * The logic around explicit contexts is the same as for `usePending`
+     */
+    useErrors<T extends StateProp>(...explicitContexts: T[]) {
+      const contexts = useRef(new Set<StateProp>(explicitContexts));
+
+      const subscribe = useMemo(
+        () => (onStoreChange: () => void) => {
+          endServerSnapshot();
+          const _contexts = Array.from(contexts.current);
           // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
-          pendingSubscribers.get(context)!.add(subscriber);
-        });
+          _contexts.forEach((context) => errorSubscribers.get(context)!.add(onStoreChange));
+          return () => {
+            _contexts.forEach((context) => errorSubscribers.get(context)?.delete(onStoreChange));
+          };
+        },
+        [contexts]
+      );
+
+      const localErrors = useSyncExternalStore(subscribe, getErrorSnapshot, getServerErrorSnapshot);
+
+      const proxy = useMemo(
+        () =>
+          new Proxy(localErrors, {
+            get(_, prop) {
+              if (typeof prop === "string" && errorSubscribers.has(prop as StateProp)) {
+                contexts.current.add(prop as StateProp);
+              }
+              return localErrors[prop as StateProp];
+            }
+          }),
+        [localErrors]
+      );
+
+      return proxy;
+    },
+    /**
+     * Returns the undo/redo status, and re-renders the component when it changes
+     *
+     * @remarks
+     *
+     * How to use `useHistory` within a functional component:
+     *
+     * ```tsx
+     * export const Toolbar = () => {
+     *  const { canUndo, canRedo, undo, redo } = useHistory();
+     *  return <>
+     *    <button disabled={!canUndo} onClick={undo}>Undo</button>
+     *    <button disabled={!canRedo} onClick={redo}>Redo</button>
+     *  </>
+     * }
+     * ```
+     */
+    useHistory() {
+      const [status, setStatus] = useState(() => ({ canUndo: history.canUndo(), canRedo: history.canRedo() }));
+
+      const subscriber = useIfMounted(() => {
+        const next = { canUndo: history.canUndo(), canRedo: history.canRedo() };
+        // Returning the previous object lets React skip the render if nothing has changed
+        setStatus((previous) => (shallowEqual(previous, next) ? previous : next));
+      });
+
+      useEffect(() => {
+        const unsubscribe = history.subscribe(subscriber);
+        // The history may have changed between render and effect
+        subscriber();
+        return unsubscribe;
+      }, [subscriber]);
+
+      return { ...status, undo: createdStore.history.undo, redo: createdStore.history.redo };
+    },
+    /**
+     * Returns whether or not the persisted state has been restored, and re-renders the component once it has
+     *
+     * @remarks
+     *
+     * How to use `useHydrated` within a functional component:
+     *
+     * ```tsx
+     * export const App = () => {
+     *  const hydrated = useHydrated();
+     *  if(!hydrated)
+     *      return <Splash />;
+     *  ...
+     * }
+     * ```
+     */
+    useHydrated() {
+      const [hydrated, setHydrated] = useState(() => createdStore.isHydrated());
+
+      const subscriber = useIfMounted((value: boolean) => {
+        setHydrated(value);
+      });
+
+      useEffect(() => {
+        hydrationSubscribers.add(subscriber);
+        // Hydration may have completed between render and effect
+        if (createdStore.isHydrated()) {
+          subscriber(true);
+        }
         return () => {
-          // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
-          _contexts.forEach((context) => pendingSubscribers.get(context)!.delete(subscriber));
+          hydrationSubscribers.delete(subscriber);
         };
       }, [subscriber]);
 
-      return proxy;
+      return hydrated;
+    },
+    /**
+     * Subscribes to a value derived from the global state, and only re-renders the component when the derived value changes
+     *
+     * @remarks
+     *
+     * The contexts read by the selector are tracked automatically. By default, the selected values are compared with
+     * `shallowEqual`, but a custom comparison may be supplied as the second argument.
+     *
+     * How to use `useSquawkSelector` within a functional component:
+     *
+     * ```tsx
+     * export const Comp = ({ id }: Props) => {
+     *  const todo = useSquawkSelector((store) => store.todos.find((todo) => todo.id === id));
+     *  ...
+     *  return <div>{todo.title}</div>
+     * }
+     * ```
+     */
+    useSquawkSelector<TResult>(selector: (store: TStore) => TResult, equalityFn: (a: TResult, b: TResult) => boolean = shallowEqual): TResult {
+      const contexts = useRef(new Set<StoreProp>());
+
+      /** The most recent result, and the state and selector it was derived from */
+      const latest = useRef<{ state: TStore; selector: typeof selector; selected: TResult } | null>(null);
+
+      /** Returns the previous result for as long as the state and selector are unchanged, or if the new result is considered equal */
+      const select = (state: TStore) => {
+        const previous = latest.current;
+        if (previous && previous.state === state && previous.selector === selector) {
+          return previous.selected;
+        }
+
+        const next = trackSelector(selector, state, contexts.current);
+        const selected = previous && equalityFn(previous.selected, next) ? previous.selected : next;
+        // eslint-disable-next-line immutable/no-mutation
+        latest.current = { state, selector, selected };
+        return selected;
+      };
+
+      // The selector may depend on props, so it is evaluated before subscribing to find out which contexts it reads.
+      // The set of contexts only ever grows, so re-subscribe whenever the selector has read a new context
+      select(getStateSnapshot());
+      const contextCount = contexts.current.size;
+      // eslint-disable-next-line react-hooks/exhaustive-deps
+      const subscribe = useMemo(() => (onStoreChange: () => void) => subscribeHook(Array.from(contexts.current) as string[], onStoreChange), [contextCount]);
+
+      return useSyncExternalStore(
+        subscribe,
+        () => select(getStateSnapshot()),
+        () => select(getServerStateSnapshot())
+      );
     },
     /**
      * Subscribes to updates in the global state to re-render a component
@@ -386,36 +2113,192 @@ export default function createStore<T>(initialState: Required<T>, useReduxDevToo
      * ```
      */
     useSquawk<T extends StoreProp>(...explicitContexts: T[]): TStore {
-      /** Initialize useState with the global state */
-      const [localState, localDispatcher] = useState(() => globalState.get());
+      const contexts = useRef(new Set<string>(explicitContexts as string[]));
+
+      /** Explicit contexts are subscribed to as a whole, even if nested paths within them are read */
+      const tracker = useRef<PathTracker>({ paths: contexts.current, whole: new Set(explicitContexts as string[]), proxies: new Map(), active: true });
+      // eslint-disable-next-line immutable/no-mutation
+      tracker.current.active = true;
+
+      /** The current subscription, along with the number of paths it was set up for */
+      const subscription = useRef<{ onStoreChange: () => void; unsubscribe: () => void; size: number } | null>(null);
 
-      /** Define subscribe via callback to guarantee stable identity */
-      const subscriber = useIfMounted((value: TStore) => {
-        localDispatcher(value);
+      useEffect(() => {
+        // eslint-disable-next-line immutable/no-mutation
+        tracker.current.active = false;
       });
 
-      const contexts = useRef(new Set<StoreProp>(explicitContexts));
+      /** The paths are read when subscribing, i.e. after the first render has recorded the paths it read */
+      const subscribe = useMemo(
+        () => (onStoreChange: () => void) => {
+          // eslint-disable-next-line immutable/no-mutation
+          subscription.current = { onStoreChange, unsubscribe: subscribeHook(Array.from(contexts.current), onStoreChange, tracker.current.whole), size: contexts.current.size };
+          return () => {
+            subscription.current?.unsubscribe();
+            // eslint-disable-next-line immutable/no-mutation
+            subscription.current = null;
+          };
+        },
+        [contexts, tracker]
+      );
+
+      const localState = useSyncExternalStore(subscribe, getStateSnapshot, getServerStateSnapshot);
+
+      useEffect(() => {
+        // A render may read paths that previous renders didn't (e.g. in a branch). The set of paths only ever grows, so re-subscribe whenever it has
+        const current = subscription.current;
+        if (current && current.size !== contexts.current.size) {
+          current.unsubscribe();
+          // eslint-disable-next-line immutable/no-mutation
+          subscription.current = { ...current, unsubscribe: subscribeHook(Array.from(contexts.current), current.onStoreChange, tracker.current.whole), size: contexts.current.size };
+          // The state may have changed between render and subscribing
+          if (getStateSnapshot() !== localState) {
+            current.onStoreChange();
+          }
+        }
+      });
 
       const proxy = useMemo(
         () =>
           new Proxy(localState, {
             get(_, prop) {
-              if (typeof prop === "string") {
-                contexts.current.add(prop as StoreProp);
+              if (typeof prop !== "string") {
+                return localState[prop as StoreProp];
               }
-              return localState[prop as StoreProp];
+              contexts.current.add(prop);
+              return trackNested(localState[prop as StoreProp], prop, tracker.current);
             }
           }),
         [localState]
       );
 
-      useEffect(() => {
-        return internalSubscribe(Array.from(contexts.current), subscriber);
-      }, [contexts, subscriber]);
-
       return proxy;
     }
   };
 
   return createdStore;
 }
+
+/**
+ * Creates a factory for stores with the same shape and options, i.e. a fresh store per request when rendering on the server
+ *
+ * @remarks
+ *
+ * Module-level stores are shared by every request handled by the server, so state from one request would leak into the next.
+ * Create one store per request instead, and pass the state rendered on the server to the store created on the client:
+ *
+ * ```tsx
+ * const createAppStore = createStoreFactory(() => ({ user: null, todos: [] }));
+ *
+ * // Server
+ * const store = createAppStore();
+ * const html = renderToString(<App store={store} />) + createStateScript(store.get());
+ *
+ * // Client
+ * const store = createAppStore(readServerState());
+ * hydrate(<App store={store} />, root);
+ * ```
+ */
+// eslint-disable-next-line @typescript-eslint/explicit-module-boundary-types, @typescript-eslint/ban-types
+export function createStoreFactory<T, C = {}>(initialState: () => Required<T>, options: StoreOptions<T, C> = {}) {
+  // eslint-disable-next-line @typescript-eslint/explicit-module-boundary-types
+  return (serverState?: Partial<T>) => createStore<T, C>(initialState(), { ...options, serverState: serverState ?? options.serverState });
+}
+
+/**
+ * Creates a React context that provides a separate store to every `SquawkProvider`, e.g. to render independent copies of a widget,
+ * or to isolate stores in Storybook and tests
+ *
+ * @remarks
+ *
+ * The hooks returned use the store of the nearest provider. Outside of any provider, they use the default store if `fallback` is enabled,
+ * and throw otherwise. Note that, like any module-level store, the default store is shared by every request when rendering on the server.
+ *
+ * ```tsx
+ * const { SquawkProvider, useSquawk } = createStoreContext(() => ({ count: 0 }));
+ *
+ * const Counter = () => {
+ *   const { count } = useSquawk();
+ *   // ...
+ * };
+ *
+ * <SquawkProvider><Counter /></SquawkProvider>
+ * <SquawkProvider><Counter /></SquawkProvider>
+ * ```
+ */
+// eslint-disable-next-line @typescript-eslint/explicit-module-boundary-types, @typescript-eslint/ban-types
+export function createStoreContext<T, C = {}>(initialState: () => Required<T>, options: StoreOptions<T, C> & { fallback?: boolean } = {}) {
+  const { fallback, ...storeOptions } = options;
+  const createInstance = createStoreFactory<T, C>(initialState, storeOptions);
+  type Store = ReturnType<typeof createInstance>;
+
+  const StoreContext = createContext<Store | null>(null);
+
+  /** The store used outside of any provider, if fallback is enabled */
+  const defaultStore = fallback ? createInstance() : null;
+
+  /** Provides a store to the subtree, either the supplied one, or one created when the provider is mounted (optionally from server state) */
+  const SquawkProvider = ({ store, serverState, children }: { store?: Store; serverState?: Partial<T>; children?: ReactNode }) => {
+    const [instance] = useState(() => store || createInstance(serverState));
+    return createElement(StoreContext.Provider, { value: instance }, children);
+  };
+
+  /** Returns the store of the nearest provider, or the default store outside of any provider */
+  const useStore = (): Store => {
+    const store = useContext(StoreContext);
+    if (store) {
+      return store;
+    }
+    if (!defaultStore) {
+      throw Error("No store found, the component must be rendered within a SquawkProvider");
+    }
+    return defaultStore;
+  };
+
+  return {
+    SquawkProvider,
+    useStore,
+    defaultStore,
+    useSquawk: ((...explicitContexts) => useStore().useSquawk(...explicitContexts)) as Store["useSquawk"],
+    useSquawkSelector: ((selector, equalityFn) => useStore().useSquawkSelector(selector, equalityFn)) as Store["useSquawkSelector"],
+    usePending: ((...explicitContexts) => useStore().usePending(...explicitContexts)) as Store["usePending"],
+    useErrors: ((...explicitContexts) => useStore().useErrors(...explicitContexts)) as Store["useErrors"]
+  };
+}
+
+/**
+ * Creates a store from slices (see `createSlice`), and binds the slices to it
+ *
+ * @remarks
+ *
+ * By default, the props of each slice are namespaced in the store, as `<slice>/<prop>`. With `keys: "flat"`, they keep their names,
+ * and must be unique across the slices.
+ */
+// eslint-disable-next-line @typescript-eslint/explicit-module-boundary-types, @typescript-eslint/ban-types
+export function combineSlices<L extends AnySlice[], K extends SliceKeys = "namespaced", C = {}>(slices: L, options: StoreOptions<CombinedState<L, K>, C> & { keys?: K } = {}) {
+  const { keys = "namespaced", ...storeOptions } = options;
+
+  const initialState: Record<string, unknown> = {};
+  /** The slice that defined each key */
+  const owners = new Map<string, string>();
+  for (const slice of slices) {
+    if (slices.some((other) => other !== slice && other.name === slice.name)) {
+      throw Error(`Slice "${slice.name}" is defined more than once`);
+    }
+    for (const [prop, value] of Object.entries(slice.initialState as Record<string, unknown>)) {
+      const key = keys === "flat" ? prop : `${slice.name}/${prop}`;
+      if (owners.has(key)) {
+        throw Error(`"${key}" is defined by both slice "${owners.get(key)}" and slice "${slice.name}"`);
+      }
+      owners.set(key, slice.name);
+      // eslint-disable-next-line immutable/no-mutation
+      initialState[key] = value;
+    }
+  }
+
+  const store = createStore<CombinedState<L, K>, C>(initialState as Required<CombinedState<L, K>>, storeOptions);
+  for (const slice of slices) {
+    bindSlice(slice, (store as unknown) as SliceStore, keys);
+  }
+  return store;
+}
@@ -0,0 +1,195 @@
+import createStore from "../Squawk";
+
+describe("Squawk batching", () => {
+  it("notifies each subscriber once, after the batch completes", () => {
+    const store = createStore({ foo: "bar", count: 0 });
+    const subscriber = jest.fn();
+    store.subscribe("foo", subscriber);
+    store.subscribe("count", subscriber);
+
+    const result = store.batch(() => {
+      store.update({ foo: "updated" });
+      store.update({ count: 1 });
+      store.update({ count: 2 });
+      expect(subscriber).not.toHaveBeenCalled();
+      // The state itself is updated immediately
+      expect(store.get()).toEqual({ foo: "updated", count: 2 });
+      return "result";
+    });
+
+    expect(result).toBe("result");
+    expect(subscriber).toHaveBeenCalledTimes(2);
+    expect(subscriber).toHaveBeenCalledWith("updated");
+    expect(subscriber).toHaveBeenCalledWith(2);
+  });
+
+  it("defers notifications until nested batches have completed", () => {
+    const store = createStore({ count: 0 });
+    const subscriber = jest.fn();
+    store.subscribe("count", subscriber);
+
+    store.batch(() => {
+      store.batch(() => store.update({ count: 1 }));
+      expect(subscriber).not.toHaveBeenCalled();
+      store.update({ count: 2 });
+    });
+
+    expect(subscriber).toHaveBeenCalledTimes(1);
+    expect(subscriber).toHaveBeenCalledWith(2);
+  });
+
+  it("waits for async callbacks", async () => {
+    const store = createStore({ count: 0 });
+    const subscriber = jest.fn();
+    store.subscribe("count", subscriber);
+
+    const promise = store.batch(async () => {
+      store.update({ count: 1 });
+      await Promise.resolve();
+      store.update({ count: 2 });
+    });
+    expect(subscriber).not.toHaveBeenCalled();
+
+    await promise;
+    expect(subscriber).toHaveBeenCalledTimes(1);
+  });
+
+  it("keeps computed props up-to-date within a batch, and notifies them once", () => {
+    const store = createStore({ count: 1 }, { computed: { double: (store) => store.count * 2 } });
+    const subscriber = jest.fn();
+    store.subscribe("double", subscriber);
+
+    store.batch(() => {
+      store.update({ count: 2 });
+      expect(store.get().double).toBe(4);
+      store.update({ count: 3 });
+    });
+
+    expect(subscriber).toHaveBeenCalledTimes(1);
+    expect(subscriber).toHaveBeenCalledWith(6);
+  });
+
+  it("batches the updates of actions that opt in, without holding back other updates while they are waiting", async () => {
+    jest.useFakeTimers();
+    const store = createStore({ foo: "bar", count: 0, other: 0 });
+    const subscriber = jest.fn();
+    const other = jest.fn();
+    store.subscribe("foo", subscriber);
+    store.subscribe("count", subscriber);
+    store.subscribe("other", other);
+
+    const loading = store.action(
+      async () => {
+        store.update({ foo: "loading" });
+        store.update({ foo: "still loading", count: 1 });
+        await new Promise((resolve) => setTimeout(resolve, 50));
+        return { foo: "done", count: 2 };
+      },
+      [],
+      { batch: true }
+    )();
+
+    // Notified once per prop
+    expect(subscriber.mock.calls).toEqual([["still loading"], [1]]);
+
+    store.update({ other: 1 });
+    expect(other).toHaveBeenCalledWith(1);
+
+    jest.advanceTimersByTime(50);
+    await loading;
+    jest.useRealTimers();
+
+    expect(subscriber).toHaveBeenCalledTimes(4);
+    expect(store.get()).toEqual({ foo: "done", count: 2, other: 1 });
+  });
+});
+
+describe("Squawk transactions", () => {
+  it("rolls back the state if the callback throws", () => {
+    const store = createStore({ foo: "bar", count: 0 });
+    const error = new Error("Failed");
+
+    expect(() =>
+      store.transaction(() => {
+        store.update({ foo: "updated", count: 1 });
+        throw error;
+      })
+    ).toThrow(error);
+
+    expect(store.get()).toEqual({ foo: "bar", count: 0 });
+  });
+
+  it("rolls back the state if the promise rejects", async () => {
+    const store = createStore({ foo: "bar", count: 0 });
+    const subscriber = jest.fn();
+    store.subscribe("count", subscriber);
+
+    await expect(
+      store.transaction(async () => {
+        store.update({ count: 1 });
+        await Promise.resolve();
+        throw new Error("Failed");
+      })
+    ).rejects.toThrow("Failed");
+
+    expect(store.get().count).toBe(0);
+    expect(subscriber).toHaveBeenCalledTimes(1);
+    expect(subscriber).toHaveBeenCalledWith(0);
+  });
+
+  it("only rolls back the contexts written by the transaction, unless they have been changed since", async () => {
+    const store = createStore({ draft: "", saved: "", status: "idle" });
+    // eslint-disable-next-line immutable/no-let
+    let respond = () => undefined as void;
+    const save = store.action(() => new Promise<{ saved: string; status: string }>((resolve) => (respond = () => resolve({ saved: "Saved", status: "saved" }))));
+    const saving = save();
+
+    const failing = store.transaction(async () => {
+      store.update({ draft: "Draft", status: "editing" });
+      await Promise.resolve();
+      // The action was invoked before the transaction, so its update isn't part of it
+      respond();
+      await saving;
+      throw new Error("Failed");
+    });
+
+    await expect(failing).rejects.toThrow("Failed");
+    expect(store.get()).toEqual({ draft: "", saved: "Saved", status: "saved" });
+  });
+
+  it("records a single history entry, which is dropped when the transaction is rolled back", async () => {
+    const store = createStore({ count: 0, label: "" }, { history: {} });
+
+    store.transaction(() => {
+      store.update({ count: 1 });
+      store.update({ label: "One" });
+    });
+    store.history.undo();
+    expect(store.get()).toEqual({ count: 0, label: "" });
+    store.history.redo();
+
+    await expect(
+      store.transaction(async () => {
+        store.update({ count: 2 });
+        await Promise.resolve();
+        throw new Error("Failed");
+      })
+    ).rejects.toThrow("Failed");
+
+    expect(store.get().count).toBe(1);
+    store.history.undo();
+    expect(store.get()).toEqual({ count: 0, label: "" });
+    expect(store.history.canUndo).toBe(false);
+    store.history.redo();
+    expect(store.get()).toEqual({ count: 1, label: "One" });
+    expect(store.history.canRedo).toBe(false);
+  });
+
+  it("keeps the state if the callback succeeds", () => {
+    const store = createStore({ count: 0 });
+
+    store.transaction(() => store.update({ count: 1 }));
+
+    expect(store.get().count).toBe(1);
+  });
+});
@@ -0,0 +1,98 @@
+import createStore from "../Squawk";
+
+describe("Squawk computed props", () => {
+  const createCartStore = (totalPrice = jest.fn((store: { cart: number[]; taxRate: number }) => store.cart.reduce((sum, price) => sum + price, 0) * (1 + store.taxRate))) =>
+    createStore(
+      { cart: [10, 20], taxRate: 0.5, currency: "SEK" },
+      {
+        computed: {
+          totalPrice,
+          label: (store) => `${store.cart.length} items (${store.currency})`
+        }
+      }
+    );
+
+  it("exposes computed props through get()", () => {
+    const store = createCartStore();
+
+    expect(store.get().totalPrice).toBe(45);
+    expect(store.get().label).toBe("2 items (SEK)");
+  });
+
+  it("recomputes lazily, and only when a dependency has changed", () => {
+    const totalPrice = jest.fn((store: { cart: number[]; taxRate: number }) => store.cart.reduce((sum, price) => sum + price, 0) * (1 + store.taxRate));
+    const store = createCartStore(totalPrice);
+
+    store.update({ taxRate: 0 });
+    expect(totalPrice).not.toHaveBeenCalled();
+
+    expect(store.get().totalPrice).toBe(30);
+    expect(store.get().totalPrice).toBe(30);
+    expect(totalPrice).toHaveBeenCalledTimes(1);
+
+    store.update({ currency: "EUR" });
+    expect(store.get().totalPrice).toBe(30);
+    expect(totalPrice).toHaveBeenCalledTimes(1);
+
+    store.update({ cart: [10] });
+    expect(store.get().totalPrice).toBe(10);
+    expect(totalPrice).toHaveBeenCalledTimes(2);
+  });
+
+  it("notifies subscribers of computed props only when the computed value changes", () => {
+    const store = createCartStore();
+    const callback = jest.fn();
+    store.subscribe("totalPrice", callback);
+
+    store.update({ currency: "EUR" });
+    expect(callback).not.toHaveBeenCalled();
+
+    store.update({ cart: [20, 10] });
+    expect(callback).not.toHaveBeenCalled();
+
+    store.update({ taxRate: 0 });
+    expect(callback).toHaveBeenCalledTimes(1);
+    expect(callback).toHaveBeenCalledWith(30);
+  });
+
+  it("supports computed props that depend on other computed props", () => {
+    const store = createStore(
+      { count: 1 },
+      {
+        computed: {
+          double: (store) => store.count * 2,
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any
+          quadruple: (store) => (store as any).double * 2
+        }
+      }
+    );
+    const callback = jest.fn();
+    store.subscribe("quadruple", callback);
+
+    store.update({ count: 2 });
+    expect(callback).toHaveBeenCalledWith(8);
+  });
+
+  it("passes computed props to action resolvers", async () => {
+    const store = createCartStore();
+    const checkout = store.action((state) => ({ currency: `${state.totalPrice}` }));
+
+    await checkout();
+
+    expect(store.get().currency).toBe("45");
+  });
+
+  it("does not allow computed props to be updated", () => {
+    const store = createCartStore();
+
+    // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+    // @ts-expect-error computed props are read-only
+    const invalidUpdate = () => store.update({ totalPrice: 10 });
+
+    expect(invalidUpdate).toThrow(`Computed prop "totalPrice" can't be updated`);
+  });
+
+  it("throws if a computed prop conflicts with a store prop", () => {
+    expect(() => createStore({ foo: 1 }, { computed: { foo: () => 2 } })).toThrow('Computed prop "foo" conflicts with a store prop');
+  });
+});
@@ -0,0 +1,191 @@
+import createStore, { getActionContext } from "../Squawk";
+
+/** Creates a resolver whose invocations are resolved manually */
+const createDeferredResolver = () => {
+  const invocations: { query: string; signal: AbortSignal; resolve: () => void; reject: (error: Error) => void }[] = [];
+  const resolver = (store: { results: string }, query: string) =>
+    new Promise<{ results: string }>((resolve, reject) => {
+      invocations.push({ query, signal: getActionContext(store).signal, resolve: () => resolve({ results: query }), reject });
+    });
+  return { invocations, resolver };
+};
+
+describe("Squawk action concurrency", () => {
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it("provides an AbortSignal to the resolver, without passing it as an argument", async () => {
+    const store = createStore({ results: "" });
+    const resolver = jest.fn((state: { results: string }, query: string, page = 1) => ({ results: `${query}:${page}:${typeof getActionContext(state).signal.aborted}` }));
+
+    await store.action(resolver)("foo");
+
+    expect(resolver).toHaveBeenCalledWith(expect.anything(), "foo");
+    expect(store.get().results).toBe("foo:1:boolean");
+    expect(() => getActionContext(store.get())).toThrow("getActionContext must be called with the store passed to the resolver of an action");
+  });
+
+  it("takeEvery applies the results of every invocation", async () => {
+    const store = createStore({ results: "" });
+    const { invocations, resolver } = createDeferredResolver();
+    const search = store.action(resolver, ["results"]);
+
+    const first = search("first");
+    const second = search("second");
+    invocations[1].resolve();
+    await second;
+    invocations[0].resolve();
+    await first;
+
+    expect(store.get().results).toBe("first");
+  });
+
+  it("takeLatest aborts and discards superseded invocations", async () => {
+    const store = createStore({ results: "" });
+    const { invocations, resolver } = createDeferredResolver();
+    const search = store.action(resolver, ["results"], { concurrency: "takeLatest" });
+
+    const first = search("first");
+    const second = search("second");
+
+    expect(invocations[0].signal.aborted).toBe(true);
+    expect(invocations[1].signal.aborted).toBe(false);
+
+    invocations[1].resolve();
+    await second;
+    invocations[0].resolve();
+    await first;
+
+    expect(store.get().results).toBe("second");
+    // Both invocations have been cleaned up, so pending is balanced
+    expect(() => store.pending("results", false)).toThrow('Too many calls to pending("results", false)');
+  });
+
+  it("clears the pending status of superseded invocations as soon as they are aborted", async () => {
+    const store = createStore({ results: "" });
+    const { invocations, resolver } = createDeferredResolver();
+    const search = store.action(resolver, ["results"], { concurrency: "takeLatest" });
+    const pending = jest.fn();
+    store.subscribePending("results", pending);
+
+    const first = search("first");
+    const second = search("second");
+    // The second invocation is marked as pending before the first one is released
+    expect(pending).not.toHaveBeenCalledWith(false);
+
+    invocations[1].resolve();
+    await second;
+    expect(store.getPending().results).toBe(false);
+
+    pending.mockClear();
+    invocations[0].resolve();
+    await first;
+    expect(pending).not.toHaveBeenCalled();
+    expect(() => store.pending("results", false)).toThrow('Too many calls to pending("results", false)');
+  });
+
+  it("does not pass on errors from aborted invocations", async () => {
+    const store = createStore({ results: "" });
+    const { invocations, resolver } = createDeferredResolver();
+    const search = store.action(resolver, ["results"], { concurrency: "takeLatest" });
+
+    const first = search("first");
+    search("second");
+    invocations[0].reject(new Error("AbortError"));
+
+    await expect(first).resolves.toBeDefined();
+  });
+
+  it("takeLeading ignores invocations while one is running", async () => {
+    const store = createStore({ results: "" });
+    const { invocations, resolver } = createDeferredResolver();
+    const search = store.action(resolver, [], { concurrency: "exhaust" });
+
+    const first = search("first");
+    const second = search("second");
+
+    expect(second).toBe(first);
+    expect(invocations).toHaveLength(1);
+
+    invocations[0].resolve();
+    await first;
+    search("third");
+
+    expect(invocations).toHaveLength(2);
+  });
+
+  it("debounce only runs the last invocation once the calls have settled", async () => {
+    jest.useFakeTimers();
+    const store = createStore({ results: "" });
+    const resolver = jest.fn((_, query: string) => ({ results: query }));
+    const search = store.action(resolver, ["results"], { concurrency: { debounce: 100 } });
+
+    const first = search("f");
+    jest.advanceTimersByTime(50);
+    const second = search("fo");
+    jest.advanceTimersByTime(50);
+    const third = search("foo");
+
+    expect(resolver).not.toHaveBeenCalled();
+    jest.advanceTimersByTime(100);
+    await Promise.all([first, second, third]);
+
+    expect(resolver).toHaveBeenCalledTimes(1);
+    expect(store.get().results).toBe("foo");
+  });
+
+  it("throttle runs at most once per interval", async () => {
+    const now = jest.spyOn(Date, "now").mockReturnValue(0);
+    const store = createStore({ count: 0 });
+    const increment = store.action((state) => ({ count: state.count + 1 }), [], { concurrency: { throttle: 100 } });
+
+    await increment();
+    now.mockReturnValue(50);
+    await increment();
+    expect(store.get().count).toBe(1);
+
+    now.mockReturnValue(100);
+    await increment();
+    expect(store.get().count).toBe(2);
+  });
+
+  it("cancel aborts running invocations and keeps pending balanced", async () => {
+    const store = createStore({ results: "" });
+    const { invocations, resolver } = createDeferredResolver();
+    const search = store.action(resolver, ["results"]);
+
+    const first = search("first");
+    search.cancel();
+    expect(invocations[0].signal.aborted).toBe(true);
+
+    invocations[0].resolve();
+    await first;
+
+    expect(store.get().results).toBe("");
+    expect(() => store.pending("results", false)).toThrow('Too many calls to pending("results", false)');
+  });
+
+  it("aborts the invocation when the signal passed to withSignal is aborted", async () => {
+    const store = createStore({ results: "" });
+    const { invocations, resolver } = createDeferredResolver();
+    const search = store.action(resolver);
+    const listeners = new Set<() => void>();
+    const signal = {
+      aborted: false,
+      addEventListener: (_: string, listener: () => void) => listeners.add(listener),
+      removeEventListener: (_: string, listener: () => void) => listeners.delete(listener)
+    };
+
+    const promise = search.withSignal((signal as unknown) as AbortSignal)("first");
+    listeners.forEach((listener) => listener());
+    invocations[0].resolve();
+    await promise;
+
+    expect(invocations[0].signal.aborted).toBe(true);
+    expect(store.get().results).toBe("");
+    // Finished invocations no longer listen to the signal
+    expect(listeners.size).toBe(0);
+  });
+});
@@ -0,0 +1,145 @@
+import * as React from "react";
+import * as renderer from "react-test-renderer";
+
+import createStore from "../Squawk";
+
+const { act } = renderer;
+
+describe("Squawk hooks on useSyncExternalStore", () => {
+  // Effects run in tree order, so an effect in an earlier sibling runs after the later sibling
+  // has rendered, but before it has subscribed
+  const UpdateOnMount = ({ update }: { update: () => void }) => {
+    React.useEffect(update, [update]);
+    return null;
+  };
+
+  it("does not lose updates between render and subscribing in useSquawk", () => {
+    const store = createStore({ foo: "bar" });
+    const rendered = Array<string>();
+
+    const Consumer = () => {
+      const { foo } = store.useSquawk();
+      rendered.push(foo);
+      return null;
+    };
+
+    act(() => {
+      renderer.create(React.createElement(React.Fragment, null, React.createElement(UpdateOnMount, { update: () => store.update({ foo: "updated" }) }), React.createElement(Consumer)));
+    });
+
+    expect(rendered).toEqual(["bar", "updated"]);
+
+    act(() => {
+      store.update({ foo: "subscribed" });
+    });
+    expect(rendered[rendered.length - 1]).toBe("subscribed");
+  });
+
+  it("does not lose updates between render and subscribing in useSquawkSelector", () => {
+    const store = createStore({ count: 1 });
+    const rendered = Array<number>();
+
+    const Consumer = () => {
+      rendered.push(store.useSquawkSelector((state) => state.count * 2));
+      return null;
+    };
+
+    act(() => {
+      renderer.create(React.createElement(React.Fragment, null, React.createElement(UpdateOnMount, { update: () => store.update({ count: 2 }) }), React.createElement(Consumer)));
+    });
+
+    expect(rendered).toEqual([2, 4]);
+  });
+
+  it("does not lose updates between render and subscribing in usePending", () => {
+    const store = createStore({ foo: "bar" });
+    const rendered = Array<boolean>();
+
+    const Consumer = () => {
+      rendered.push(store.usePending().foo);
+      return null;
+    };
+
+    act(() => {
+      renderer.create(React.createElement(React.Fragment, null, React.createElement(UpdateOnMount, { update: () => store.pending(["foo"], true) }), React.createElement(Consumer)));
+    });
+
+    expect(rendered).toEqual([false, true]);
+  });
+
+  it("re-renders every component with the same state, and only for tracked props", () => {
+    const store = createStore({ foo: "bar", baz: 1 });
+    const rendered = Array<string>();
+
+    const Consumer = () => {
+      const { foo } = store.useSquawk();
+      rendered.push(foo);
+      return React.createElement("div", null, foo);
+    };
+
+    // eslint-disable-next-line immutable/no-let
+    let root: renderer.ReactTestRenderer | undefined;
+    act(() => {
+      root = renderer.create(React.createElement(React.Fragment, null, React.createElement(Consumer), React.createElement(Consumer)));
+    });
+
+    act(() => {
+      store.update({ foo: "updated" });
+    });
+
+    // Both components re-render with the same state
+    expect(rendered).toEqual(["bar", "bar", "updated", "updated"]);
+
+    // Updates to untracked props don't re-render
+    act(() => {
+      store.update({ baz: 2 });
+    });
+    expect(rendered).toHaveLength(4);
+
+    // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+    act(() => root!.unmount());
+  });
+
+  it("uses useSyncExternalStore from React when available", () => {
+    const useSyncExternalStore = jest.fn((_subscribe: unknown, getSnapshot: () => unknown) => getSnapshot());
+    jest.resetModules();
+    jest.doMock("react", () => ({
+      useSyncExternalStore,
+      useRef: (init: unknown) => ({ current: init }),
+      useMemo: (factory: () => unknown) => factory(),
+      useEffect: jest.fn()
+    }));
+
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    const isolatedStore = require("../Squawk").default({ foo: "bar" });
+    expect(isolatedStore.useSquawk().foo).toBe("bar");
+    jest.dontMock("react");
+
+    expect(useSyncExternalStore).toHaveBeenCalledTimes(1);
+  });
+
+  it("renders the server state in components hydrated after others have mounted, since React hydrates selectively", () => {
+    /** Hydrates a component: renders the server snapshot, then subscribes once it has mounted */
+    const useSyncExternalStore = jest.fn((subscribe: (onStoreChange: () => void) => void, _getSnapshot: () => unknown, getServerSnapshot: () => unknown) => {
+      const snapshot = getServerSnapshot();
+      subscribe(() => undefined);
+      return snapshot;
+    });
+    jest.resetModules();
+    jest.doMock("react", () => ({
+      useSyncExternalStore,
+      useRef: (init: unknown) => ({ current: init }),
+      useMemo: (factory: () => unknown) => factory(),
+      useEffect: jest.fn()
+    }));
+
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    const isolatedStore = require("../Squawk").default({ foo: "bar" }, { serverState: { foo: "server" } });
+    isolatedStore.update({ foo: "client" });
+    expect(isolatedStore.useSquawk().foo).toBe("server");
+    // E.g. a Suspense boundary that is hydrated later
+    expect(isolatedStore.useSquawk().foo).toBe("server");
+    expect(isolatedStore.useSquawkSelector((state: { foo: string }) => state.foo)).toBe("server");
+    jest.dontMock("react");
+  });
+});
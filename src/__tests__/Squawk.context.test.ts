@@ -0,0 +1,104 @@
+import * as React from "react";
+import * as renderer from "react-test-renderer";
+
+import { createStoreContext } from "../Squawk";
+
+const { act } = renderer;
+
+describe("Squawk store context", () => {
+  const createCounter = (fallback = false) => {
+    const context = createStoreContext(() => ({ count: 0 }), { fallback });
+    // eslint-disable-next-line react/prop-types
+    const Counter = ({ label }: { label: string }) => {
+      const { count } = context.useSquawk();
+      const double = context.useSquawkSelector((state) => state.count * 2);
+      const { count: pending } = context.usePending();
+      const store = context.useStore();
+      return React.createElement("button", { id: label, onClick: () => store.update({ count: count + 1 }) }, `${count} ${double} ${pending}`);
+    };
+    return { ...context, Counter };
+  };
+
+  it("provides a separate store to every provider", () => {
+    const { SquawkProvider, Counter } = createCounter();
+
+    // eslint-disable-next-line immutable/no-let
+    let root: renderer.ReactTestRenderer | undefined;
+    act(() => {
+      root = renderer.create(
+        React.createElement(
+          React.Fragment,
+          null,
+          React.createElement(SquawkProvider, null, React.createElement(Counter, { label: "first" })),
+          React.createElement(SquawkProvider, null, React.createElement(Counter, { label: "second" }))
+        )
+      );
+    });
+
+    // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+    const button = (id: string) => root!.root.findByProps({ id });
+    act(() => {
+      button("first").props.onClick();
+    });
+
+    expect(button("first").children).toEqual(["1 2 false"]);
+    expect(button("second").children).toEqual(["0 0 false"]);
+  });
+
+  it("uses the supplied store, or creates one from server state", () => {
+    const { SquawkProvider, Counter, useStore } = createCounter();
+    const stores = Array<ReturnType<typeof useStore>>();
+    const Capture = () => {
+      stores.push(useStore());
+      return null;
+    };
+
+    const store = createStoreContext(() => ({ count: 0 })).defaultStore;
+    expect(store).toBeNull();
+
+    // eslint-disable-next-line immutable/no-let
+    let root: renderer.ReactTestRenderer | undefined;
+    act(() => {
+      root = renderer.create(React.createElement(SquawkProvider, { serverState: { count: 5 } }, React.createElement(Counter, { label: "counter" }), React.createElement(Capture)));
+    });
+
+    // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+    expect(root!.root.findByProps({ id: "counter" }).children).toEqual(["5 10 false"]);
+
+    const supplied = stores[0];
+    act(() => {
+      renderer.create(React.createElement(SquawkProvider, { store: supplied }, React.createElement(Capture)));
+    });
+    expect(stores[stores.length - 1]).toBe(supplied);
+  });
+
+  it("falls back to the default store outside of any provider, if enabled", () => {
+    const { Counter, defaultStore } = createCounter(true);
+
+    // eslint-disable-next-line immutable/no-let
+    let root: renderer.ReactTestRenderer | undefined;
+    act(() => {
+      root = renderer.create(React.createElement(Counter, { label: "counter" }));
+    });
+
+    act(() => {
+      // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+      defaultStore!.update({ count: 3 });
+    });
+    // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+    expect(root!.root.findByProps({ id: "counter" }).children).toEqual(["3 6 false"]);
+  });
+
+  it("throws outside of any provider, unless fallback is enabled", () => {
+    const { Counter } = createCounter();
+    const consoleError = jest.spyOn(console, "error").mockImplementation(() => undefined);
+
+    expect(() =>
+      act(() => {
+        renderer.create(React.createElement(Counter, { label: "counter" }));
+      })
+    ).toThrow("SquawkProvider");
+
+    consoleError.mockRestore();
+  });
+});
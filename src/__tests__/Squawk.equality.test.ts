@@ -0,0 +1,59 @@
+import createStore, { shallowEqual } from "../Squawk";
+
+describe("Squawk change detection", () => {
+  afterEach(() => {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    delete (global as any).window;
+  });
+
+  it("only notifies the props whose values have changed", () => {
+    const todos = ["Write tests"];
+    const store = createStore({ todos, filter: "all" });
+    const todosSubscriber = jest.fn();
+    const filterSubscriber = jest.fn();
+    store.subscribe("todos", todosSubscriber);
+    store.subscribe("filter", filterSubscriber);
+
+    store.update({ todos, filter: "done" });
+    expect(todosSubscriber).not.toHaveBeenCalled();
+    expect(filterSubscriber).toHaveBeenCalledWith("done");
+
+    store.update({ todos: [...todos] });
+    expect(todosSubscriber).toHaveBeenCalledTimes(1);
+  });
+
+  it("skips Redux dev tools and the history if nothing has changed", () => {
+    const send = jest.fn();
+    // eslint-disable-next-line immutable/no-mutation, @typescript-eslint/no-explicit-any
+    (global as any).window = { __REDUX_DEVTOOLS_EXTENSION__: { connect: () => ({ subscribe: jest.fn(), send, init: jest.fn() }) } };
+    const store = createStore({ foo: "bar", baz: NaN }, { reduxDevTools: true, history: {} });
+
+    store.update({ foo: "bar", baz: NaN });
+    expect(send).not.toHaveBeenCalled();
+    expect(store.history.canUndo).toBe(false);
+
+    store.update({ foo: "updated", baz: NaN });
+    expect(send).toHaveBeenCalledWith({ type: "foo", update: { foo: "updated" } }, { foo: "updated", baz: NaN });
+  });
+
+  it("compares values with the equality function of the store, or of the prop", () => {
+    const store = createStore({ todos: ["Write tests"], user: { name: "John" } }, { equality: shallowEqual });
+    const todos = jest.fn();
+    store.subscribe("todos", todos);
+    const initial = store.get().todos;
+
+    store.update({ todos: ["Write tests"] });
+    expect(todos).not.toHaveBeenCalled();
+    // The current value is kept, rather than replaced by an equal one
+    expect(store.get().todos).toBe(initial);
+
+    const perProp = createStore({ todos: ["Write tests"], user: { name: "John" } }, { equality: { user: (a, b) => a.name === b.name } });
+    const user = jest.fn();
+    perProp.subscribe("user", user);
+    perProp.subscribe("todos", todos);
+
+    perProp.update({ user: { name: "John" }, todos: ["Write tests"] });
+    expect(user).not.toHaveBeenCalled();
+    expect(todos).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,87 @@
+import * as React from "react";
+import * as renderer from "react-test-renderer";
+
+import createStore from "../Squawk";
+
+const { act } = renderer;
+
+describe("Squawk errors", () => {
+  it("records errors from failing actions against their affected contexts", async () => {
+    const store = createStore({ foo: "bar", baz: 123 });
+    const error = new Error("Request failed");
+    const failing = store.action(() => {
+      throw error;
+    }, ["foo"]);
+
+    await expect(failing()).rejects.toThrow(error);
+
+    expect(store.getErrors()).toEqual({ foo: error, baz: undefined });
+  });
+
+  it("clears the error when the next invocation of the same action succeeds", async () => {
+    const store = createStore({ foo: "bar" });
+    // eslint-disable-next-line immutable/no-let
+    let shouldFail = true;
+    const flaky = store.action(() => {
+      if (shouldFail) {
+        throw new Error("Request failed");
+      }
+      return { foo: "updated" };
+    }, ["foo"]);
+    const other = store.action(() => ({ foo: "other" }), ["foo"]);
+
+    await expect(flaky()).rejects.toThrow();
+
+    // Another action succeeding doesn't clear errors it didn't cause
+    await other();
+    expect(store.getErrors().foo).toBeInstanceOf(Error);
+
+    shouldFail = false;
+    await flaky();
+    expect(store.getErrors().foo).toBeUndefined();
+  });
+
+  it("notifies error subscribers", async () => {
+    const store = createStore({ foo: "bar", baz: 123 });
+    const fooCallback = jest.fn();
+    const bazCallback = jest.fn();
+    store.subscribeErrors("foo", fooCallback);
+    const unsubscribe = store.subscribeErrors("baz", bazCallback);
+    unsubscribe();
+
+    const error = new Error("Request failed");
+    await expect(store.action(() => Promise.reject(error), ["foo", "baz"])()).rejects.toThrow(error);
+
+    expect(fooCallback).toHaveBeenCalledWith(error);
+    expect(bazCallback).not.toHaveBeenCalled();
+
+    store.setError("foo", undefined);
+    expect(fooCallback).toHaveBeenLastCalledWith(undefined);
+  });
+
+  it("re-renders useErrors consumers when a tracked error changes", () => {
+    const store = createStore({ foo: "bar", baz: 123 });
+    const render = jest.fn();
+
+    const TestComponent = () => {
+      const errors = store.useErrors();
+      render(errors.foo);
+      return React.createElement("div", null, errors.foo ? "failed" : "ok");
+    };
+
+    act(() => {
+      renderer.create(React.createElement(TestComponent));
+    });
+
+    act(() => {
+      store.setError("baz", "untracked");
+    });
+    expect(render).toHaveBeenCalledTimes(1);
+
+    act(() => {
+      store.setError("foo", "failed");
+    });
+    expect(render).toHaveBeenCalledTimes(2);
+    expect(render).toHaveBeenLastCalledWith("failed");
+  });
+});
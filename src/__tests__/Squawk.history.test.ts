@@ -0,0 +1,159 @@
+import * as React from "react";
+import * as renderer from "react-test-renderer";
+
+import createStore from "../Squawk";
+
+const { act } = renderer;
+
+describe("Squawk history", () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("undoes and redoes updates, notifying subscribers", () => {
+    const store = createStore({ text: "", other: 0 }, { history: {} });
+    const callback = jest.fn();
+    store.subscribe("text", callback);
+
+    store.update({ text: "a" });
+    store.update({ text: "ab" });
+
+    expect(store.history.canUndo).toBe(true);
+    expect(store.history.canRedo).toBe(false);
+
+    store.history.undo();
+    expect(store.get().text).toBe("a");
+    expect(callback).toHaveBeenLastCalledWith("a");
+    expect(store.history.canRedo).toBe(true);
+
+    store.history.undo();
+    expect(store.get().text).toBe("");
+    expect(store.history.canUndo).toBe(false);
+
+    store.history.redo();
+    store.history.redo();
+    expect(store.get().text).toBe("ab");
+    expect(callback).toHaveBeenLastCalledWith("ab");
+  });
+
+  it("only tracks the selected keys", () => {
+    const store = createStore({ text: "", selection: 0 }, { history: { keys: ["text"] } });
+
+    store.update({ selection: 1 });
+    expect(store.history.canUndo).toBe(false);
+
+    store.update({ text: "a", selection: 2 });
+    store.history.undo();
+
+    expect(store.get()).toEqual({ text: "", selection: 2 });
+  });
+
+  it("discards the redo entries when a new change is made", () => {
+    const store = createStore({ text: "" }, { history: {} });
+
+    store.update({ text: "a" });
+    store.history.undo();
+    store.update({ text: "b" });
+
+    expect(store.history.canRedo).toBe(false);
+  });
+
+  it("respects the max depth", () => {
+    const store = createStore({ count: 0 }, { history: { maxDepth: 2 } });
+
+    store.update({ count: 1 });
+    store.update({ count: 2 });
+    store.update({ count: 3 });
+    store.history.undo();
+    store.history.undo();
+
+    expect(store.get().count).toBe(1);
+    expect(store.history.canUndo).toBe(false);
+  });
+
+  it("groups the updates made by an action into a single entry, but not other updates made while it is running", async () => {
+    const store = createStore({ text: "", saved: false, title: "" }, { history: {} });
+    // eslint-disable-next-line immutable/no-let
+    let respond = () => undefined as void;
+    const save = store.action((_, text: string) => new Promise<{ saved: boolean }>((resolve) => (respond = () => resolve({ saved: text.length > 0 }))), [], {
+      optimistic: (_, text) => ({ text })
+    });
+
+    const saving = save("hello");
+    await Promise.resolve();
+    store.update({ title: "a" });
+    store.update({ title: "ab" });
+    respond();
+    await saving;
+
+    // The entry of the action was started by its first update, before the other updates were made
+    store.history.undo();
+    expect(store.get()).toEqual({ text: "hello", saved: true, title: "a" });
+    store.history.undo();
+    expect(store.get()).toEqual({ text: "hello", saved: true, title: "" });
+    store.history.undo();
+    expect(store.get()).toEqual({ text: "", saved: false, title: "" });
+    expect(store.history.canUndo).toBe(false);
+  });
+
+  it("groups updates made within the group window into a single entry", () => {
+    const now = jest.spyOn(Date, "now").mockReturnValue(0);
+    const store = createStore({ text: "" }, { history: { groupWindow: 500 } });
+
+    store.update({ text: "a" });
+    now.mockReturnValue(400);
+    store.update({ text: "ab" });
+    now.mockReturnValue(1000);
+    store.update({ text: "abc" });
+
+    store.history.undo();
+    expect(store.get().text).toBe("ab");
+    store.history.undo();
+    expect(store.get().text).toBe("");
+  });
+
+  it("clears the history", () => {
+    const store = createStore({ text: "" }, { history: {} });
+
+    store.update({ text: "a" });
+    store.history.clear();
+
+    expect(store.history.canUndo).toBe(false);
+  });
+
+  it("does not record anything unless enabled", () => {
+    const store = createStore({ text: "" });
+
+    store.update({ text: "a" });
+
+    expect(store.history.canUndo).toBe(false);
+  });
+
+  it("re-renders useHistory consumers when the undo/redo status changes", () => {
+    const store = createStore({ text: "" }, { history: {} });
+    // eslint-disable-next-line immutable/no-let, @typescript-eslint/no-explicit-any
+    let status: any;
+
+    const TestComponent = () => {
+      status = store.useHistory();
+      return React.createElement("div", null, status.canUndo ? "can undo" : "can't undo");
+    };
+
+    act(() => {
+      renderer.create(React.createElement(TestComponent));
+    });
+    expect(status.canUndo).toBe(false);
+
+    act(() => {
+      store.update({ text: "a" });
+    });
+    expect(status.canUndo).toBe(true);
+
+    act(() => {
+      status.undo();
+    });
+    expect(status.canUndo).toBe(false);
+    expect(status.canRedo).toBe(true);
+    expect(store.get().text).toBe("");
+  });
+});
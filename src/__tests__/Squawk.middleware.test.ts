@@ -0,0 +1,135 @@
+import createStore, { Middleware, ValidationError } from "../Squawk";
+
+describe("Squawk middleware", () => {
+  it("passes the update, previous state and source to middleware", async () => {
+    const mw = jest.fn((_, next) => next());
+    const store = createStore({ foo: "bar", count: 0 }, { middleware: [mw] });
+
+    store.update({ foo: "updated" });
+    await store.action((_, amount: number) => ({ count: amount }), [], { name: "setCount" })(5);
+
+    expect(mw).toHaveBeenCalledTimes(2);
+    expect(mw.mock.calls[0][0]).toMatchObject({ update: { foo: "updated" }, previousState: { foo: "bar", count: 0 }, source: { type: "update" } });
+    expect(mw.mock.calls[1][0]).toMatchObject({ update: { count: 5 }, previousState: { foo: "updated", count: 0 }, source: { type: "action", name: "setCount", args: [5] } });
+    expect(store.get()).toEqual({ foo: "updated", count: 5 });
+  });
+
+  it("allows middleware to transform updates", () => {
+    const store = createStore({ name: "" });
+    store.use(({ update }, next) => next({ ...update, name: update.name?.trim() }));
+    store.use(({ update }, next) => next({ ...update, name: update.name?.toUpperCase() }));
+
+    store.update({ name: "  john " });
+
+    expect(store.get().name).toBe("JOHN");
+  });
+
+  it("allows middleware to veto updates", () => {
+    const store = createStore({ count: 0 });
+    const callback = jest.fn();
+    store.subscribe("count", callback);
+    store.use(({ update }, next) => {
+      if ((update.count ?? 0) >= 0) {
+        next();
+      }
+    });
+
+    store.update({ count: -1 });
+    expect(store.get().count).toBe(0);
+    expect(callback).not.toHaveBeenCalled();
+
+    store.update({ count: 1 });
+    expect(store.get().count).toBe(1);
+  });
+
+  it("runs code after the update has been applied", () => {
+    const store = createStore({ count: 0 });
+    const log: string[] = [];
+    store.use(({ getState }, next) => {
+      log.push(`before ${getState().count}`);
+      next();
+      log.push(`after ${getState().count}`);
+    });
+    store.subscribe("count", (count) => log.push(`notified ${count}`));
+
+    store.update({ count: 1 });
+
+    expect(log).toEqual(["before 0", "notified 1", "after 1"]);
+  });
+
+  it("waits for async middleware in actions", async () => {
+    const store = createStore({ count: 0 });
+    const asyncMiddleware: Middleware<{ count: number }> = async (_, next) => {
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      await next();
+    };
+    store.use(asyncMiddleware);
+
+    await store.action(() => ({ count: 1 }))();
+
+    expect(store.get().count).toBe(1);
+  });
+
+  it("reports errors after async middleware in updates, instead of rejecting", async () => {
+    const onValidationError = jest.fn();
+    const store = createStore({ count: 0 }, { validate: { count: (value) => value >= 0 }, onValidationError });
+    const error = jest.spyOn(console, "error").mockImplementation(() => undefined);
+    // eslint-disable-next-line immutable/no-let
+    let failing = false;
+    store.use(async (_, next) => {
+      await Promise.resolve();
+      await next();
+      if (failing) {
+        throw Error("Middleware failed");
+      }
+    });
+
+    store.update({ count: -1 });
+    await new Promise((resolve) => setTimeout(resolve));
+    expect(onValidationError).toHaveBeenCalledWith(expect.any(ValidationError), { type: "update" });
+    expect(store.get().count).toBe(0);
+
+    failing = true;
+    store.update({ count: 1 });
+    await new Promise((resolve) => setTimeout(resolve));
+    expect(error).toHaveBeenCalledWith(Error("Middleware failed"));
+    error.mockRestore();
+  });
+
+  it("can be removed", () => {
+    const store = createStore({ count: 0 });
+    const mw = jest.fn((_, next) => next());
+    const remove = store.use(mw);
+
+    remove();
+    store.update({ count: 1 });
+
+    expect(mw).not.toHaveBeenCalled();
+    expect(store.get().count).toBe(1);
+  });
+
+  it("runs devtools dispatches through middleware", () => {
+    const devToolsSubscribeCallbacks: Array<(msg: { type: string; state: string }) => void> = [];
+    // eslint-disable-next-line immutable/no-mutation, @typescript-eslint/no-explicit-any
+    (global as any).window = {
+      __REDUX_DEVTOOLS_EXTENSION__: {
+        connect: () => ({
+          subscribe: (cb: (msg: { type: string; state: string }) => void) => devToolsSubscribeCallbacks.push(cb),
+          send: jest.fn(),
+          init: jest.fn()
+        })
+      }
+    };
+
+    const mw = jest.fn((_, next) => next());
+    const store = createStore({ foo: "bar" }, { reduxDevTools: true, middleware: [mw] });
+
+    devToolsSubscribeCallbacks[0]({ type: "DISPATCH", state: JSON.stringify({ foo: "travelled" }) });
+
+    expect(mw.mock.calls[0][0]).toMatchObject({ update: { foo: "travelled" }, source: { type: "devtools" } });
+    expect(store.get().foo).toBe("travelled");
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    delete (global as any).window;
+  });
+});
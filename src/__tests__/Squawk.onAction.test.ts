@@ -0,0 +1,78 @@
+import createStore from "../Squawk";
+
+describe("Squawk action lifecycle events", () => {
+  it("sends start and success events, even if the resolver returns nothing", async () => {
+    const store = createStore({ count: 0 });
+    const events = jest.fn();
+    store.onAction(events);
+
+    const increment = store.action((state, by: number) => ({ count: state.count + by }), ["count"], { name: "increment" });
+    const noop = store.action(() => undefined);
+    await increment(2);
+    await noop();
+
+    expect(events.mock.calls.map(([event]) => event)).toEqual([
+      { type: "start", name: "increment", args: [2], affectedContexts: ["count"] },
+      { type: "success", name: "increment", args: [2], affectedContexts: ["count"], duration: expect.any(Number), update: { count: 2 } },
+      { type: "start", name: undefined, args: [], affectedContexts: [] },
+      { type: "success", name: undefined, args: [], affectedContexts: [], duration: expect.any(Number), update: undefined }
+    ]);
+  });
+
+  it("sends error events once the pending status has been cleared", async () => {
+    const store = createStore({ user: "" });
+    const events = Array<[string, boolean]>();
+    store.onAction((event) => events.push([event.type, store.getPending().user]));
+    const errors = jest.fn();
+    store.onAction((event) => event.type === "error" && errors(event.error, event.duration));
+
+    const load = store.action(() => Promise.reject(Error("Request failed")), ["user"], { name: "load" });
+    await expect(load()).rejects.toThrow("Request failed");
+
+    expect(events).toEqual([
+      ["start", false],
+      ["error", false]
+    ]);
+    expect(errors).toHaveBeenCalledWith(Error("Request failed"), expect.any(Number));
+  });
+
+  it("sends cancel events for aborted invocations", async () => {
+    const store = createStore({ user: "" });
+    const events = jest.fn();
+    store.onAction((event) => events(event.type, event.args));
+
+    const load = store.action(
+      (_state, user: string) => new Promise<{ user: string }>((resolve) => setTimeout(() => resolve({ user }), 10)),
+      ["user"],
+      { concurrency: "takeLatest" }
+    );
+    await Promise.all([load("First"), load("Second")]);
+
+    expect(events.mock.calls).toEqual([
+      ["start", ["First"]],
+      ["start", ["Second"]],
+      ["cancel", ["First"]],
+      ["success", ["Second"]]
+    ]);
+    expect(store.get().user).toBe("Second");
+  });
+
+  it("ignores errors thrown by listeners, and stops sending events once removed", async () => {
+    const store = createStore({ count: 0 });
+    const failing = store.onAction(() => {
+      throw Error("Listener failed");
+    });
+    const events = jest.fn();
+    const remove = store.onAction(events);
+
+    const increment = store.action((state) => ({ count: state.count + 1 }));
+    await increment();
+    expect(store.get().count).toBe(1);
+    expect(events).toHaveBeenCalledTimes(2);
+
+    failing();
+    remove();
+    await increment();
+    expect(events).toHaveBeenCalledTimes(2);
+  });
+});
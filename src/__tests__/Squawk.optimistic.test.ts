@@ -0,0 +1,151 @@
+import createStore from "../Squawk";
+
+describe("Squawk optimistic updates", () => {
+  const createTodoStore = () => {
+    const store = createStore({ todos: Array<string>(), count: 0 });
+    const responses = Array<{ todo: string; resolve: (todos?: string[]) => void; reject: (error: Error) => void }>();
+    const conflicts = jest.fn();
+    const add = store.action(
+      (_store, todo: string) => new Promise<{ todos: string[] } | undefined>((resolve, reject) => responses.push({ todo, resolve: (todos) => resolve(todos && { todos }), reject })),
+      ["todos"],
+      {
+        name: "add",
+        optimistic: (state, todo) => ({ todos: [...state.todos, todo], count: state.count + 1 }),
+        onConflict: conflicts
+      }
+    );
+    const respond = async () => {
+      // Let the action apply the patch before responding
+      await Promise.resolve();
+      return responses[responses.length - 1];
+    };
+    return { store, add, respond, conflicts };
+  };
+
+  it("applies the patch straight away, and replaces it with the result of the resolver", async () => {
+    const { store, add, respond } = createTodoStore();
+    const updates = jest.fn();
+    store.use(({ update, source }, next) => {
+      updates(update, source.type);
+      next();
+    });
+
+    const adding = add("Write tests");
+    expect(store.get()).toEqual({ todos: ["Write tests"], count: 1 });
+
+    (await respond()).resolve(["Write tests (saved)"]);
+    await adding;
+
+    expect(store.get()).toEqual({ todos: ["Write tests (saved)"], count: 1 });
+    expect(updates.mock.calls).toEqual([
+      [{ todos: ["Write tests"], count: 1 }, "action"],
+      [{ todos: ["Write tests (saved)"] }, "action"]
+    ]);
+  });
+
+  it("keeps the patch if the resolver returns nothing", async () => {
+    const { store, add, respond } = createTodoStore();
+
+    const adding = add("Write tests");
+    (await respond()).resolve();
+    await adding;
+
+    expect(store.get()).toEqual({ todos: ["Write tests"], count: 1 });
+  });
+
+  it("rolls the patch back if the resolver throws", async () => {
+    const { store, add, respond, conflicts } = createTodoStore();
+    const todos = jest.fn();
+    store.subscribe("todos", todos);
+
+    const adding = add("Write tests");
+    (await respond()).reject(Error("Request failed"));
+    await expect(adding).rejects.toThrow("Request failed");
+
+    expect(store.get()).toEqual({ todos: [], count: 0 });
+    expect(todos).toHaveBeenLastCalledWith([]);
+    expect(store.getErrors().todos).toEqual(Error("Request failed"));
+    expect(conflicts).not.toHaveBeenCalled();
+  });
+
+  it("keeps, and reports, changes made by other updates while the action was running", async () => {
+    const { store, add, respond, conflicts } = createTodoStore();
+
+    const adding = add("Write tests");
+    await Promise.resolve();
+    store.update({ count: 10 });
+    (await respond()).reject(Error("Request failed"));
+    await expect(adding).rejects.toThrow();
+
+    expect(store.get()).toEqual({ todos: [], count: 10 });
+    expect(conflicts).toHaveBeenCalledWith([{ prop: "count", previous: 0, optimistic: 1, current: 10 }]);
+  });
+
+  const createHistoryStore = () => {
+    const store = createStore({ todos: Array<string>(), count: 0 }, { history: {} });
+    const failures = Array<() => void>();
+    const add = store.action(
+      (_store, todo: string) => new Promise<{ todos: string[] }>((_resolve, reject) => failures.push(() => reject(Error(`Adding "${todo}" failed`)))),
+      ["todos"],
+      {
+        optimistic: (state, todo) => ({ todos: [...state.todos, todo], count: state.count + 1 })
+      }
+    );
+    const fail = async () => {
+      // Let the action apply the patch before failing
+      await Promise.resolve();
+      failures[failures.length - 1]();
+    };
+    return { store, add, fail };
+  };
+
+  it("drops rolled back patches from the undo history", async () => {
+    const { store, add, fail } = createHistoryStore();
+
+    store.update({ todos: ["Saved"], count: 1 });
+    const adding = add("Write tests");
+    await fail();
+    await expect(adding).rejects.toThrow(`Adding "Write tests" failed`);
+    expect(store.get()).toEqual({ todos: ["Saved"], count: 1 });
+
+    store.history.undo();
+    expect(store.get()).toEqual({ todos: [], count: 0 });
+    expect(store.history.canUndo).toBe(false);
+    store.history.redo();
+    expect(store.get()).toEqual({ todos: ["Saved"], count: 1 });
+    expect(store.history.canRedo).toBe(false);
+  });
+
+  it("keeps changes made by other updates in the undo history when the patch is rolled back", async () => {
+    const { store, add, fail } = createHistoryStore();
+
+    const adding = add("Write tests");
+    await Promise.resolve();
+    store.update({ count: 10 });
+    await fail();
+    await expect(adding).rejects.toThrow();
+    expect(store.get()).toEqual({ todos: [], count: 10 });
+
+    // The patch of count wasn't rolled back, and neither is its entry
+    store.history.undo();
+    expect(store.get()).toEqual({ todos: [], count: 1 });
+    store.history.undo();
+    expect(store.get()).toEqual({ todos: [], count: 0 });
+    expect(store.history.canUndo).toBe(false);
+    store.history.redo();
+    store.history.redo();
+    expect(store.get()).toEqual({ todos: [], count: 10 });
+  });
+
+  it("rolls the patch back if the invocation is aborted", async () => {
+    const { store, add, respond } = createTodoStore();
+
+    const adding = add("Write tests");
+    await respond();
+    add.cancel();
+    (await respond()).resolve(["Write tests (saved)"]);
+    await adding;
+
+    expect(store.get()).toEqual({ todos: [], count: 0 });
+  });
+});
@@ -0,0 +1,218 @@
+import * as React from "react";
+import * as renderer from "react-test-renderer";
+
+import createStore from "../Squawk";
+
+const { act } = renderer;
+
+describe("Squawk nested paths", () => {
+  interface IUserState {
+    user: { name: string; email?: string; preferences: { theme: string; language: string } };
+    todos: { title: string }[];
+    count: number;
+  }
+
+  const createUserStore = () =>
+    createStore<IUserState>({
+      user: { name: "John", preferences: { theme: "light", language: "en" } },
+      todos: [{ title: "First" }],
+      count: 0
+    });
+
+  it("only notifies path subscribers when the value at the path changes", () => {
+    const store = createUserStore();
+    const theme = jest.fn();
+    const language = jest.fn();
+    const user = jest.fn();
+    store.subscribePath("user.preferences.theme", theme);
+    store.subscribe(["user", "preferences", "language"], language);
+    store.subscribe("user", user);
+
+    store.update({ user: { ...store.get().user, name: "Jane" } });
+    expect(theme).not.toHaveBeenCalled();
+    expect(language).not.toHaveBeenCalled();
+    expect(user).toHaveBeenCalledTimes(1);
+
+    store.setIn(["user", "preferences", "theme"], "dark");
+    expect(theme).toHaveBeenCalledWith("dark");
+    expect(language).not.toHaveBeenCalled();
+    expect(user).toHaveBeenCalledTimes(2);
+  });
+
+  it("copies the objects along the path, and keeps the identity of everything else", () => {
+    const store = createUserStore();
+    const before = store.get();
+
+    store.setIn(["user", "preferences", "theme"], "dark");
+    const after = store.get();
+
+    expect(after.user.preferences).toEqual({ theme: "dark", language: "en" });
+    expect(after.user).not.toBe(before.user);
+    expect(before.user.preferences.theme).toBe("light");
+    expect(after.todos).toBe(before.todos);
+
+    store.setIn(["todos", 0, "title"], "Updated");
+    expect(Array.isArray(store.get().todos)).toBe(true);
+    expect(store.get().todos).toEqual([{ title: "Updated" }]);
+  });
+
+  it("type-checks paths and props, and validates dotted paths when subscribing", () => {
+    const store = createUserStore();
+
+    // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+    // @ts-expect-error
+    expect(() => store.setIn(["missing", "theme"], "dark")).toThrow();
+    // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+    // @ts-expect-error
+    store.subscribe(["user", "preferences", "theme"], (theme: number) => theme);
+
+    // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+    // @ts-expect-error
+    expect(() => store.subscribe("usr", jest.fn())).toThrow();
+    // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+    // @ts-expect-error
+    store.subscribe("user.preferences.theme", jest.fn());
+
+    expect(() => store.subscribePath("missing.theme", jest.fn())).toThrow();
+  });
+
+  it("subscribes components to the deepest paths they read", () => {
+    const store = createUserStore();
+    const render = jest.fn();
+
+    const TestComponent = () => {
+      const { user } = store.useSquawk();
+      render(user.preferences.theme);
+      return React.createElement("div", null, user.preferences.theme);
+    };
+
+    act(() => {
+      renderer.create(React.createElement(TestComponent));
+    });
+    expect(render).toHaveBeenCalledTimes(1);
+
+    act(() => {
+      store.setIn(["user", "name"], "Jane");
+    });
+    expect(render).toHaveBeenCalledTimes(1);
+
+    act(() => {
+      store.setIn(["user", "preferences", "theme"], "dark");
+    });
+    expect(render).toHaveBeenCalledTimes(2);
+    expect(render).toHaveBeenLastCalledWith("dark");
+  });
+
+  it("subscribes to paths first read after the component has mounted", () => {
+    const store = createStore({ user: { admin: false, name: "John", panel: { theme: "light" } } });
+    const render = jest.fn();
+
+    const TestComponent = () => {
+      const { user } = store.useSquawk();
+      const label = user.admin ? user.panel.theme : user.name;
+      render(label);
+      return React.createElement("div", null, label);
+    };
+
+    act(() => {
+      renderer.create(React.createElement(TestComponent));
+    });
+
+    act(() => {
+      store.setIn(["user", "admin"], true);
+    });
+    expect(render).toHaveBeenLastCalledWith("light");
+
+    act(() => {
+      store.setIn(["user", "panel", "theme"], "dark");
+    });
+    expect(render).toHaveBeenLastCalledWith("dark");
+    expect(render).toHaveBeenCalledTimes(3);
+  });
+
+  it("subscribes to objects as a whole when their keys are enumerated, or when passed as explicit contexts", () => {
+    const store = createUserStore();
+    const render = jest.fn();
+    const explicitRender = jest.fn();
+
+    const TestComponent = () => {
+      const { todos, user } = store.useSquawk();
+      render(
+        todos.map((todo) => todo.title),
+        Object.keys(user)
+      );
+      return null;
+    };
+
+    const ExplicitComponent = () => {
+      const { user } = store.useSquawk("user");
+      explicitRender(user.name);
+      return null;
+    };
+
+    act(() => {
+      renderer.create(React.createElement(React.Fragment, null, React.createElement(TestComponent), React.createElement(ExplicitComponent)));
+    });
+
+    act(() => {
+      store.update({ todos: [...store.get().todos, { title: "Second" }] });
+    });
+    expect(render).toHaveBeenLastCalledWith(["First", "Second"], ["name", "preferences"]);
+
+    act(() => {
+      store.setIn(["user", "email"], "john@example.com");
+    });
+    expect(render).toHaveBeenLastCalledWith(["First", "Second"], ["name", "preferences", "email"]);
+
+    act(() => {
+      store.setIn(["user", "preferences", "language"], "sv");
+    });
+    expect(explicitRender).toHaveBeenCalledTimes(3);
+  });
+
+  it("never stores the proxies used for tracking", () => {
+    const store = createUserStore();
+    // eslint-disable-next-line immutable/no-let
+    let user: IUserState["user"] | undefined;
+
+    const TestComponent = () => {
+      user = store.useSquawk().user;
+      return React.createElement("div", null, user.name);
+    };
+
+    act(() => {
+      renderer.create(React.createElement(TestComponent));
+    });
+
+    const raw = store.get().user;
+    expect(user).not.toBe(raw);
+
+    act(() => {
+      // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+      store.update({ user: user!, count: 1 });
+    });
+    expect(store.get().user).toBe(raw);
+
+    act(() => {
+      // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+      store.update({ user: { ...user!, name: "Jane" } });
+    });
+    expect(store.get().user.preferences).toBe(raw.preferences);
+
+    // Proxies nested within updates are unwrapped as well
+    act(() => {
+      // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+      store.update({ todos: [{ title: user!.preferences.theme }], user: { ...raw, preferences: user!.preferences } });
+    });
+    expect(store.get().user.preferences).toBe(raw.preferences);
+
+    act(() => {
+      // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+      store.setIn(["user", "preferences"], { ...user!.preferences });
+      // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+      store.setIn(["todos", 1], { title: "Second", preferences: user!.preferences } as IUserState["todos"][number]);
+    });
+    expect(store.get().todos[1]).toEqual({ title: "Second", preferences: raw.preferences });
+    expect((store.get().todos[1] as { preferences?: unknown }).preferences).toBe(raw.preferences);
+  });
+});
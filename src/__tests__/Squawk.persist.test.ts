@@ -0,0 +1,161 @@
+import * as React from "react";
+import * as renderer from "react-test-renderer";
+
+import createStore, { createMemoryStorage, StorageAdapter } from "../Squawk";
+
+const { act } = renderer;
+
+describe("Squawk persistence", () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("hydrates synchronously from a synchronous storage", () => {
+    const storage = createMemoryStorage();
+    storage.setItem("app", JSON.stringify({ version: 0, state: { foo: "persisted" } }));
+
+    const store = createStore({ foo: "bar", baz: 1 }, { persist: { key: "app", storage } });
+
+    expect(store.isHydrated()).toBe(true);
+    expect(store.get()).toEqual({ foo: "persisted", baz: 1 });
+  });
+
+  it("writes updates to the storage, respecting include and exclude", () => {
+    const storage = createMemoryStorage();
+    const store = createStore({ foo: "bar", baz: 1, qux: true }, { persist: { key: "app", storage, exclude: ["qux"] } });
+
+    store.update({ baz: 2, qux: false });
+
+    expect(JSON.parse(storage.getItem("app") as string)).toEqual({ version: 0, state: { foo: "bar", baz: 2 } });
+
+    const included = createStore({ foo: "bar", baz: 1 }, { persist: { key: "included", storage, include: ["foo"] } });
+    included.update({ foo: "updated" });
+
+    expect(JSON.parse(storage.getItem("included") as string).state).toEqual({ foo: "updated" });
+  });
+
+  it("throttles writes", () => {
+    jest.useFakeTimers();
+    const storage = createMemoryStorage();
+    const setItem = jest.spyOn(storage, "setItem");
+    const store = createStore({ count: 0 }, { persist: { key: "app", storage, throttle: 100 } });
+
+    store.update({ count: 1 });
+    store.update({ count: 2 });
+    expect(setItem).not.toHaveBeenCalled();
+
+    jest.advanceTimersByTime(100);
+    expect(setItem).toHaveBeenCalledTimes(1);
+    expect(JSON.parse(setItem.mock.calls[0][1]).state).toEqual({ count: 2 });
+
+    store.update({ count: 3 });
+    store.flush();
+    expect(setItem).toHaveBeenCalledTimes(2);
+  });
+
+  it("runs migrations in order when the stored version is older", () => {
+    const storage = createMemoryStorage();
+    storage.setItem("app", JSON.stringify({ version: 0, state: { name: "John Doe" } }));
+
+    const store = createStore(
+      { firstName: "", lastName: "", greeting: "" },
+      {
+        persist: {
+          key: "app",
+          storage,
+          version: 2,
+          migrations: {
+            1: ({ name }) => {
+              const [firstName, lastName] = (name as string).split(" ");
+              return { firstName, lastName };
+            },
+            2: (state) => ({ ...state, greeting: `Hello ${state.firstName}` })
+          }
+        }
+      }
+    );
+
+    expect(store.get()).toEqual({ firstName: "John", lastName: "Doe", greeting: "Hello John" });
+  });
+
+  it("discards state from a newer version and ignores malformed state", () => {
+    const storage = createMemoryStorage();
+    storage.setItem("newer", JSON.stringify({ version: 3, state: { foo: "newer" } }));
+    storage.setItem("malformed", "invalid json");
+
+    expect(createStore({ foo: "bar" }, { persist: { key: "newer", storage, version: 1 } }).get().foo).toBe("bar");
+    expect(createStore({ foo: "bar" }, { persist: { key: "malformed", storage } }).get().foo).toBe("bar");
+  });
+
+  it("notifies subscribers once async hydration completes, keeping the props updated in the meantime", async () => {
+    // eslint-disable-next-line immutable/no-let
+    let resolveRead: (value: string) => void = () => undefined;
+    const storage: StorageAdapter = {
+      getItem: () =>
+        new Promise<string>((resolve) => {
+          resolveRead = resolve;
+        }),
+      setItem: jest.fn(),
+      removeItem: jest.fn()
+    };
+
+    const store = createStore({ foo: "bar", baz: 1 }, { persist: { key: "app", storage } });
+    const callback = jest.fn();
+    store.subscribe("foo", callback);
+
+    expect(store.isHydrated()).toBe(false);
+
+    // Updates before hydration are not written, or they would overwrite the persisted state
+    store.update({ baz: 5 });
+    expect(storage.setItem).not.toHaveBeenCalled();
+
+    resolveRead(JSON.stringify({ version: 0, state: { foo: "persisted", baz: 2 } }));
+    await Promise.resolve();
+
+    expect(store.isHydrated()).toBe(true);
+    expect(store.get()).toEqual({ foo: "persisted", baz: 5 });
+    expect(callback).toHaveBeenLastCalledWith("persisted");
+    expect(storage.setItem).toHaveBeenCalledWith("app", JSON.stringify({ version: 0, state: { foo: "persisted", baz: 5 } }));
+  });
+
+  it("re-renders useHydrated consumers once hydration completes", async () => {
+    // eslint-disable-next-line immutable/no-let
+    let resolveRead: (value: string | null) => void = () => undefined;
+    const storage: StorageAdapter = {
+      getItem: () =>
+        new Promise<string | null>((resolve) => {
+          resolveRead = resolve;
+        }),
+      setItem: jest.fn(),
+      removeItem: jest.fn()
+    };
+
+    const store = createStore({ foo: "bar" }, { persist: { key: "app", storage } });
+
+    // eslint-disable-next-line immutable/no-let
+    let hydrated: boolean | undefined;
+    const TestComponent = () => {
+      hydrated = store.useHydrated();
+      return React.createElement("div", null, hydrated ? "ready" : "loading");
+    };
+
+    act(() => {
+      renderer.create(React.createElement(TestComponent));
+    });
+
+    expect(hydrated).toBe(false);
+
+    resolveRead(null);
+    await Promise.resolve();
+    act(() => {
+      // Flush the state update
+    });
+
+    expect(hydrated).toBe(true);
+  });
+
+  it("is always hydrated when persistence isn't enabled", () => {
+    const store = createStore({ foo: "bar" });
+    expect(store.isHydrated()).toBe(true);
+  });
+});
@@ -31,8 +31,8 @@ describe("Squawk proxy vulnerability", () => {
 
     // Since we mocked useRef, we can check its calls
     const useRefCalls = (React.useRef as jest.Mock).mock.calls;
-    // useIfMounted has 2 useRef calls, usePending has 1
-    const contextsRef = useRefCalls[2][0]; // explicitContexts set
+    // usePending has 1 useRef call, for the contexts
+    const contextsRef = useRefCalls[0][0]; // explicitContexts set
 
     expect(contextsRef).toBeInstanceOf(Set);
     expect(contextsRef.has(sym)).toBe(false);
@@ -53,7 +53,7 @@ describe("Squawk proxy vulnerability", () => {
     expect(value).toBeUndefined();
 
     const useRefCalls = (React.useRef as jest.Mock).mock.calls;
-    const contextsRef = useRefCalls[2][0]; // explicitContexts set
+    const contextsRef = useRefCalls[0][0]; // explicitContexts set
 
     expect(contextsRef).toBeInstanceOf(Set);
     expect(contextsRef.has(sym)).toBe(false);
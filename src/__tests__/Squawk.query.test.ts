@@ -0,0 +1,138 @@
+import * as React from "react";
+import * as renderer from "react-test-renderer";
+
+import createStore from "../Squawk";
+
+const { act } = renderer;
+
+describe("Squawk queries", () => {
+  const createUserStore = (cacheTime?: number) => {
+    const store = createStore({ user: "" });
+    const requests = Array<{ id: number; respond: () => void }>();
+    const fetcher = jest.fn(
+      (_store: unknown, id: number) => new Promise<string>((resolve) => requests.push({ id, respond: () => resolve(`User ${id}, request ${requests.length}`) }))
+    );
+    const users = store.query("user", fetcher, { cacheTime });
+    const respond = async () => {
+      // Let the action start the request before responding
+      await Promise.resolve();
+      requests.forEach((request) => request.respond());
+    };
+    return { store, users, fetcher, respond };
+  };
+
+  it("reuses the request in flight for the same arguments, marking the prop as pending", async () => {
+    const { store, users, fetcher, respond } = createUserStore();
+
+    const first = users.fetch(1);
+    const second = users.fetch(1);
+    expect(store.getPending().user).toBe(true);
+    await respond();
+    await Promise.all([first, second]);
+
+    expect(fetcher).toHaveBeenCalledTimes(1);
+    expect(store.get().user).toBe("User 1, request 1");
+    expect(store.getPending().user).toBe(false);
+  });
+
+  it("serves fresh results from the cache, and stale results while they are fetched again", async () => {
+    const fresh = createUserStore(60000);
+    const fetching = fresh.users.fetch(1);
+    expect(fresh.users.getStatus()).toEqual({ isStale: true, lastUpdated: null });
+    await fresh.respond();
+    await fetching;
+
+    expect(fresh.users.getStatus()).toEqual({ isStale: false, lastUpdated: expect.any(Number) });
+    await fresh.users.fetch(1);
+    expect(fresh.fetcher).toHaveBeenCalledTimes(1);
+
+    const stale = createUserStore(0);
+    await Promise.all([stale.users.fetch(1), stale.respond()]);
+    await Promise.all([stale.users.fetch(2), stale.respond()]);
+
+    const refreshing = stale.users.fetch(1);
+    expect(stale.store.get().user).toBe("User 1, request 1");
+    expect(stale.users.getStatus().isStale).toBe(true);
+    await stale.respond();
+    await refreshing;
+
+    expect(stale.store.get().user).toBe("User 1, request 3");
+    expect(stale.fetcher).toHaveBeenCalledTimes(3);
+  });
+
+  it("fetches invalidated results again if the prop is used by a mounted component", async () => {
+    const { store, users, fetcher, respond } = createUserStore(60000);
+    await Promise.all([users.fetch(1), respond()]);
+
+    await store.invalidate("user");
+    expect(users.getStatus().isStale).toBe(true);
+    expect(fetcher).toHaveBeenCalledTimes(1);
+
+    const render = jest.fn();
+    const TestComponent = () => {
+      const { user } = store.useSquawk();
+      const { isStale } = users.useStatus();
+      render(user, isStale);
+      return null;
+    };
+
+    act(() => {
+      renderer.create(React.createElement(TestComponent));
+    });
+
+    // The request completes outside of act, which React warns about
+    const consoleError = jest.spyOn(console, "error").mockImplementation(() => undefined);
+    await Promise.all([store.invalidate("user"), respond()]);
+    act(() => {
+      // Flush effects
+    });
+    consoleError.mockRestore();
+
+    expect(fetcher).toHaveBeenCalledTimes(2);
+    expect(fetcher).toHaveBeenLastCalledWith(expect.anything(), 1);
+    expect(render).toHaveBeenLastCalledWith("User 1, request 2", false);
+  });
+
+  it("doesn't reuse requests that have been aborted by a request for other arguments", async () => {
+    const { store, users, fetcher, respond } = createUserStore(60000);
+
+    const first = users.fetch(1);
+    const second = users.fetch(2);
+    const third = users.fetch(1);
+    await respond();
+    await Promise.all([first, second, third]);
+
+    expect(fetcher).toHaveBeenCalledTimes(3);
+    expect(store.get().user).toBe("User 1, request 3");
+    expect(users.getStatus().isStale).toBe(false);
+  });
+
+  it("evicts results from the cache once they have not been current for the evict time", async () => {
+    const now = jest.spyOn(Date, "now").mockReturnValue(0);
+    const store = createStore({ user: "" });
+    const fetcher = jest.fn((_store: unknown, id: number) => Promise.resolve(`User ${id}`));
+    const users = store.query("user", fetcher, { cacheTime: 60000, evictTime: 1000 });
+
+    await users.fetch(1);
+    await users.fetch(2);
+    now.mockReturnValue(500);
+    await users.fetch(1);
+    now.mockReturnValue(1500);
+    // The result for 2 has been evicted, the one for 1 is current and is kept
+    await users.fetch(1);
+    expect(fetcher).toHaveBeenCalledTimes(2);
+    await users.fetch(2);
+    expect(fetcher).toHaveBeenCalledTimes(3);
+    now.mockRestore();
+  });
+
+  it("records failed requests as errors of the prop", async () => {
+    const store = createStore({ user: "" });
+    const users = store.query("user", () => Promise.reject<string>(Error("Request failed")));
+
+    await expect(users.fetch()).rejects.toThrow("Request failed");
+    expect(store.getErrors().user).toEqual(Error("Request failed"));
+    expect(users.getStatus()).toEqual({ isStale: true, lastUpdated: null });
+    expect(() => store.query("missing" as never, jest.fn())).toThrow(`"missing" is not part of the store`);
+  });
+});
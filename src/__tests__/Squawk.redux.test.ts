@@ -31,3 +31,155 @@ describe("Redux DevTools integration", () => {
     delete (global as any).window;
   });
 });
+
+describe("Redux DevTools monitor protocol", () => {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  type Message = { type: string; state?: string; payload?: any };
+
+  const setup = () => {
+    const extension = {
+      listeners: Array<(msg: Message) => void>(),
+      connect: jest.fn(),
+      init: jest.fn(),
+      send: jest.fn(),
+      dispatch: (msg: Message) => extension.listeners.forEach((listener) => listener(msg))
+    };
+    extension.connect.mockImplementation(() => ({
+      subscribe: (cb: (msg: Message) => void) => extension.listeners.push(cb),
+      init: extension.init,
+      send: extension.send
+    }));
+    // eslint-disable-next-line immutable/no-mutation, @typescript-eslint/no-explicit-any
+    (global as any).window = { __REDUX_DEVTOOLS_EXTENSION__: extension };
+    return extension;
+  };
+
+  afterEach(() => {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    delete (global as any).window;
+  });
+
+  it("passes options to the extension, and sends the initial state", () => {
+    const extension = setup();
+
+    createStore({ foo: "bar" }, { reduxDevTools: { name: "My store", maxAge: 10 } });
+
+    expect(extension.connect).toHaveBeenCalledWith(expect.objectContaining({ name: "My store", maxAge: 10 }));
+    expect(extension.init).toHaveBeenCalledWith({ foo: "bar" });
+  });
+
+  it("labels entries with the action name and arguments", async () => {
+    const extension = setup();
+    const store = createStore({ foo: "bar", count: 0 }, true);
+
+    store.update({ foo: "updated" });
+    await store.action((_, count: number) => ({ count }), [], { name: "setCount" })(5);
+
+    expect(extension.send).toHaveBeenNthCalledWith(1, { type: "foo", update: { foo: "updated" } }, { foo: "updated", count: 0 });
+    expect(extension.send).toHaveBeenNthCalledWith(2, { type: "setCount", args: [5], update: { count: 5 } }, { foo: "updated", count: 5 });
+  });
+
+  it("jumps to states sent by the extension, reviving Date, Map and Set", () => {
+    const extension = setup();
+    const store = createStore({ date: new Date(0), map: new Map<string, number>(), set: new Set<number>() }, true);
+
+    extension.dispatch({
+      type: "DISPATCH",
+      payload: { type: "JUMP_TO_STATE" },
+      state: JSON.stringify({
+        date: { __serializedType__: "Date", data: "2020-01-01T00:00:00.000Z" },
+        map: { __serializedType__: "Map", data: [["a", 1]] },
+        set: { __serializedType__: "Set", data: [1, 2] }
+      })
+    });
+
+    const state = store.get();
+    expect(state.date).toEqual(new Date("2020-01-01T00:00:00.000Z"));
+    expect(state.map).toEqual(new Map([["a", 1]]));
+    expect(state.set).toEqual(new Set([1, 2]));
+    // Time-travelling isn't recorded as a new entry
+    expect(extension.send).not.toHaveBeenCalled();
+  });
+
+  it("supports a custom deserializer", () => {
+    const extension = setup();
+    const store = createStore({ foo: "bar" }, { reduxDevTools: { deserialize: (state) => ({ foo: state.toUpperCase() }) } });
+
+    extension.dispatch({ type: "DISPATCH", payload: { type: "JUMP_TO_ACTION" }, state: "jumped" });
+
+    expect(store.get().foo).toBe("JUMPED");
+  });
+
+  it("handles RESET, COMMIT and ROLLBACK", () => {
+    const extension = setup();
+    const store = createStore({ count: 0 }, true);
+
+    store.update({ count: 1 });
+    extension.dispatch({ type: "DISPATCH", payload: { type: "COMMIT" } });
+    expect(extension.init).toHaveBeenLastCalledWith({ count: 1 });
+
+    extension.dispatch({ type: "DISPATCH", payload: { type: "ROLLBACK" }, state: JSON.stringify({ count: 1 }) });
+    expect(store.get().count).toBe(1);
+
+    extension.dispatch({ type: "DISPATCH", payload: { type: "RESET" } });
+    expect(store.get().count).toBe(0);
+    expect(extension.init).toHaveBeenLastCalledWith({ count: 0 });
+  });
+
+  it("imports state", () => {
+    const extension = setup();
+    const store = createStore({ count: 0 }, true);
+    const nextLiftedState = { computedStates: [{ state: { count: 0 } }, { state: { count: 7 } }] };
+
+    extension.dispatch({ type: "DISPATCH", payload: { type: "IMPORT_STATE", nextLiftedState } });
+
+    expect(store.get().count).toBe(7);
+    expect(extension.send).toHaveBeenCalledWith(null, nextLiftedState);
+  });
+
+  it("toggles actions by replaying the others", () => {
+    const extension = setup();
+    const store = createStore({ foo: "a", count: 0 }, true);
+    const liftedState = {
+      actionsById: {
+        0: { action: { type: "@@INIT" } },
+        1: { action: { type: "foo", update: { foo: "b" } } },
+        2: { action: { type: "count", update: { count: 1 } } }
+      },
+      computedStates: [{ state: { foo: "a", count: 0 } }, { state: { foo: "b", count: 0 } }, { state: { foo: "b", count: 1 } }],
+      skippedActionIds: [],
+      stagedActionIds: [0, 1, 2]
+    };
+
+    extension.dispatch({ type: "DISPATCH", payload: { type: "TOGGLE_ACTION", id: 1 }, state: JSON.stringify(liftedState) });
+
+    expect(store.get()).toEqual({ foo: "a", count: 1 });
+    expect(extension.send).toHaveBeenCalledWith(
+      null,
+      expect.objectContaining({
+        skippedActionIds: [1],
+        computedStates: [{ state: { foo: "a", count: 0 } }, { state: { foo: "a", count: 0 } }, { state: { foo: "a", count: 1 } }]
+      })
+    );
+  });
+
+  it("stops sending while paused, and ignores updates while locked", () => {
+    const extension = setup();
+    const store = createStore({ count: 0 }, true);
+
+    extension.dispatch({ type: "DISPATCH", payload: { type: "PAUSE_RECORDING", status: true } });
+    store.update({ count: 1 });
+    expect(extension.send).not.toHaveBeenCalled();
+    expect(store.get().count).toBe(1);
+
+    extension.dispatch({ type: "DISPATCH", payload: { type: "LOCK_CHANGES", status: true } });
+    store.update({ count: 2 });
+    expect(store.get().count).toBe(1);
+
+    extension.dispatch({ type: "DISPATCH", payload: { type: "LOCK_CHANGES", status: false } });
+    extension.dispatch({ type: "DISPATCH", payload: { type: "PAUSE_RECORDING", status: false } });
+    store.update({ count: 3 });
+    expect(store.get().count).toBe(3);
+    expect(extension.send).toHaveBeenCalledTimes(1);
+  });
+});
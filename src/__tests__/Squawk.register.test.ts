@@ -0,0 +1,102 @@
+import createStore, { createMemoryStorage } from "../Squawk";
+
+describe("Squawk register and unregister", () => {
+  afterEach(() => {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    delete (global as any).window;
+  });
+
+  // eslint-disable-next-line @typescript-eslint/ban-types
+  const createEditorStore = () => createStore<{ user: string }, {}, { editor: { text: string } }>({ user: "" }, { history: {} });
+
+  it("adds props at runtime, which behave like any other prop", async () => {
+    const store = createEditorStore();
+    store.register("editor", { text: "" });
+
+    const editor = jest.fn();
+    const pending = jest.fn();
+    store.subscribe("editor", editor);
+    store.subscribePending("editor", pending);
+
+    const save = store.action(() => Promise.resolve({ editor: { text: "Saved" } }), ["editor"]);
+    await save();
+
+    expect(store.get()).toEqual({ user: "", editor: { text: "Saved" } });
+    expect(editor).toHaveBeenCalledWith({ text: "Saved" });
+    expect(pending.mock.calls).toEqual([[true], [false]]);
+
+    store.update({ editor: { text: "Updated" } });
+    store.reset();
+    expect(store.get()).toEqual({ user: "", editor: { text: "" } });
+
+    expect(() => store.register("editor", { text: "" })).toThrow(`"editor" is already part of the store`);
+  });
+
+  it("removes registered props along with their subscribers, pending status and errors", () => {
+    const store = createEditorStore();
+    store.register("editor", { text: "" });
+    const editor = jest.fn();
+    store.subscribe("editor", editor);
+    store.setError("editor", Error("Failed"));
+
+    store.unregister("editor");
+
+    expect(store.get()).toEqual({ user: "" });
+    expect(editor).toHaveBeenCalledWith(undefined);
+    expect(store.getPending()).toEqual({ user: false });
+    expect(store.getErrors()).toEqual({ user: undefined });
+    expect(() => store.subscribePending("editor", jest.fn())).toThrow(`"editor" is not part of the store`);
+    expect(() => store.pending("editor", true)).toThrow(`"editor" is not part of the store`);
+    expect(() => store.unregister("editor")).toThrow(`"editor" is not part of the store`);
+    expect(() => store.unregister("user" as never)).toThrow(`"user" is part of the initial state`);
+  });
+
+  it("ignores unregistered props when undoing changes made to them", () => {
+    const store = createEditorStore();
+    store.register("editor", { text: "" });
+    store.update({ editor: { text: "Updated" } });
+    store.unregister("editor");
+
+    store.history.undo();
+    expect(store.get()).toEqual({ user: "" });
+  });
+
+  it("keeps the persisted values of props until they are registered", () => {
+    const storage = createMemoryStorage();
+    storage.setItem("app", JSON.stringify({ version: 0, state: { user: "John", editor: { text: "Draft" } } }));
+    const read = () => JSON.parse(storage.getItem("app") as string).state;
+    // eslint-disable-next-line @typescript-eslint/ban-types
+    const store = createStore<{ user: string }, {}, { editor: { text: string } }>({ user: "" }, { persist: { key: "app", storage } });
+    expect(store.get()).toEqual({ user: "John" });
+
+    store.update({ user: "Jane" });
+    expect(read()).toEqual({ user: "Jane", editor: { text: "Draft" } });
+
+    store.register("editor", { text: "" });
+    expect(store.get().editor).toEqual({ text: "Draft" });
+    store.update({ editor: { text: "Saved" } });
+    store.unregister("editor");
+    store.update({ user: "John" });
+    expect(read()).toEqual({ user: "John", editor: { text: "Saved" } });
+
+    // The value passed to register is still the initial value of the prop
+    store.register("editor", { text: "" });
+    expect(store.get().editor).toEqual({ text: "Saved" });
+    store.reset();
+    expect(store.get()).toEqual({ user: "", editor: { text: "" } });
+  });
+
+  it("tells Redux dev tools about registered and unregistered props", () => {
+    const send = jest.fn();
+    // eslint-disable-next-line immutable/no-mutation, @typescript-eslint/no-explicit-any
+    (global as any).window = { __REDUX_DEVTOOLS_EXTENSION__: { connect: () => ({ subscribe: jest.fn(), send, init: jest.fn() }) } };
+    // eslint-disable-next-line @typescript-eslint/ban-types
+    const store = createStore<{ user: string }, {}, { editor: string }>({ user: "" }, { reduxDevTools: true });
+
+    store.register("editor", "Draft");
+    store.unregister("editor");
+
+    expect(send).toHaveBeenCalledWith({ type: "@@REGISTER", update: { editor: "Draft" } }, { user: "", editor: "Draft" });
+    expect(send).toHaveBeenCalledWith({ type: "@@UNREGISTER", key: "editor" }, { user: "" });
+  });
+});
@@ -0,0 +1,132 @@
+import createStore, { createMemoryStorage } from "../Squawk";
+
+describe("Squawk reset, snapshot and restore", () => {
+  afterEach(() => {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    delete (global as any).window;
+  });
+
+  it("resets the specified props to their initial values, or the entire store", () => {
+    const store = createStore({ user: "", theme: "light", count: 0 }, { history: {} });
+    const user = jest.fn();
+    const theme = jest.fn();
+    store.subscribe("user", user);
+    store.subscribe("theme", theme);
+
+    store.update({ user: "John", theme: "dark", count: 5 });
+    store.setError("user", Error("Failed"));
+    user.mockClear();
+    theme.mockClear();
+
+    store.reset(["user"]);
+    expect(store.get()).toEqual({ user: "", theme: "dark", count: 5 });
+    expect(store.getErrors().user).toBeUndefined();
+    expect(user).toHaveBeenCalledWith("");
+    expect(theme).not.toHaveBeenCalled();
+    expect(store.history.canUndo).toBe(true);
+
+    store.reset();
+    expect(store.get()).toEqual({ user: "", theme: "light", count: 0 });
+    expect(user).toHaveBeenCalledTimes(1);
+    expect(store.history.canUndo).toBe(false);
+  });
+
+  it("restores snapshots, notifying only the props that changed", () => {
+    const store = createStore({ foo: "bar", baz: 1 });
+    const foo = jest.fn();
+    const baz = jest.fn();
+    store.subscribe("foo", foo);
+    store.subscribe("baz", baz);
+
+    const snapshot = store.snapshot();
+    store.update({ foo: "updated" });
+    foo.mockClear();
+
+    store.restore(snapshot);
+    expect(store.get()).toEqual({ foo: "bar", baz: 1 });
+    expect(foo).toHaveBeenCalledWith("bar");
+    expect(baz).not.toHaveBeenCalled();
+
+    // Snapshots are copies, and aren't affected by later updates
+    store.update({ baz: 2 });
+    expect(snapshot).toEqual({ foo: "bar", baz: 1 });
+  });
+
+  it("clears pending status safely while actions are still running", async () => {
+    const store = createStore({ user: "" });
+    const responses = Array<(user: string) => void>();
+    const load = store.action(
+      () => new Promise<{ user: string }>((resolve) => responses.push((user) => resolve({ user }))),
+      ["user"]
+    );
+    const pending = jest.fn();
+    store.subscribePending("user", pending);
+
+    const first = load();
+    store.pending("user", true);
+    store.reset();
+
+    expect(store.getPending().user).toBe(false);
+    expect(pending).toHaveBeenLastCalledWith(false);
+
+    // A new invocation after the reset is still pending once the ones started before it have completed
+    const second = load();
+    responses[0]("First");
+    await first;
+    expect(() => store.pending("user", false)).not.toThrow();
+    expect(store.getPending().user).toBe(true);
+
+    responses[1]("Second");
+    await second;
+    expect(store.getPending().user).toBe(false);
+    expect(() => store.pending("user", false)).toThrow("Too many calls");
+  });
+
+  it("clears the pending status once the actions started after a reset complete, even if ones started before it are still running", async () => {
+    const store = createStore({ user: "" });
+    const responses = Array<(user: string) => void>();
+    const load = store.action(
+      () => new Promise<{ user: string }>((resolve) => responses.push((user) => resolve({ user }))),
+      ["user"]
+    );
+    const pending = jest.fn();
+    store.subscribePending("user", pending);
+
+    const first = load();
+    store.reset();
+    const second = load();
+    const third = load();
+
+    responses[1]("Second");
+    await second;
+    expect(store.getPending().user).toBe(true);
+
+    responses[2]("Third");
+    await third;
+    expect(store.getPending().user).toBe(false);
+
+    pending.mockClear();
+    responses[0]("First");
+    await first;
+    expect(pending).not.toHaveBeenCalled();
+    expect(() => store.pending("user", false)).toThrow("Too many calls");
+  });
+
+  it("sends resets and restored snapshots to Redux dev tools and the persisted state", () => {
+    const send = jest.fn();
+    // eslint-disable-next-line immutable/no-mutation, @typescript-eslint/no-explicit-any
+    (global as any).window = { __REDUX_DEVTOOLS_EXTENSION__: { connect: () => ({ subscribe: jest.fn(), send, init: jest.fn() }) } };
+    const storage = createMemoryStorage();
+    const store = createStore({ foo: "bar" }, { reduxDevTools: true, persist: { key: "app", storage, throttle: 0 } });
+
+    const snapshot = store.snapshot();
+    store.update({ foo: "updated" });
+    store.restore(snapshot);
+    store.update({ foo: "updated" });
+    store.reset();
+    store.flush();
+
+    expect(send.mock.calls.map(([action]) => action.type)).toEqual(["foo", "@@RESTORE", "foo", "@@RESET"]);
+    expect(JSON.parse(storage.getItem("app") as string).state).toEqual({ foo: "bar" });
+  });
+});
@@ -0,0 +1,123 @@
+import createStore, { ActionEvent, getActionContext, RetryOptions } from "../Squawk";
+
+/** Lets the action run until it waits for the next attempt */
+const settle = () => Array.from({ length: 10 }).reduce<Promise<void>>((promise) => promise.then(() => undefined), Promise.resolve());
+
+describe("Squawk action retries", () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  const createFlakyStore = (failures: number, retry: RetryOptions) => {
+    const store = createStore({ user: "" });
+    // eslint-disable-next-line immutable/no-let
+    let attempts = 0;
+    const resolver = jest.fn((_store: unknown, id: number) => {
+      attempts++;
+      if (attempts <= failures) {
+        return Promise.reject(Error(`Attempt ${attempts} failed`));
+      }
+      return Promise.resolve({ user: `User ${id}` });
+    });
+    const load = store.action(resolver, ["user"], { name: "load", retry });
+    return { store, load, resolver };
+  };
+
+  it("retries with exponential backoff, keeping the contexts pending across attempts", async () => {
+    const { store, load, resolver } = createFlakyStore(2, { attempts: 3, delay: 100 });
+    const pending = jest.fn();
+    store.subscribePending("user", pending);
+
+    const loading = load(1);
+    await settle();
+    expect(resolver).toHaveBeenCalledTimes(1);
+
+    jest.advanceTimersByTime(99);
+    await settle();
+    expect(resolver).toHaveBeenCalledTimes(1);
+    jest.advanceTimersByTime(1);
+    await settle();
+    expect(resolver).toHaveBeenCalledTimes(2);
+
+    jest.advanceTimersByTime(200);
+    await loading;
+
+    expect(resolver).toHaveBeenCalledTimes(3);
+    expect(resolver).toHaveBeenLastCalledWith(expect.anything(), 1);
+    expect(store.get().user).toBe("User 1");
+    expect(pending.mock.calls).toEqual([[true], [false]]);
+  });
+
+  it("provides the attempt and the error of the previous attempt to the resolver", async () => {
+    const store = createStore({ attempts: Array<string>() });
+    const load = store.action(
+      (state, id: number) => {
+        const { attempt, lastError } = getActionContext(state);
+        const attempts = [...state.attempts, `${id}: ${attempt} ${lastError instanceof Error ? lastError.message : "-"}`];
+        if (attempt < 2) {
+          store.update({ attempts });
+          return Promise.reject(Error(`Attempt ${attempt} failed`));
+        }
+        return Promise.resolve({ attempts });
+      },
+      ["attempts"],
+      { retry: { attempts: 2, delay: 10 } }
+    );
+
+    const loading = load(1);
+    await settle();
+    jest.advanceTimersByTime(10);
+    await loading;
+
+    expect(store.get().attempts).toEqual(["1: 1 -", "1: 2 Attempt 1 failed"]);
+
+    const single = store.action((state) => ({ attempts: [`${getActionContext(state).attempt}`] }));
+    await single();
+    expect(store.get().attempts).toEqual(["1"]);
+  });
+
+  it("sends the attempt and the error of the previous attempt to lifecycle listeners", async () => {
+    const { store, load } = createFlakyStore(1, { attempts: 2, backoff: "linear", delay: 50 });
+    const events = Array<ActionEvent<{ user: string }>>();
+    store.onAction((event) => events.push(event));
+
+    const loading = load(1);
+    await settle();
+    jest.advanceTimersByTime(50);
+    await loading;
+
+    expect(events.map((event) => event.type)).toEqual(["start", "retry", "success"]);
+    expect(events[1]).toMatchObject({ attempt: 2, error: Error("Attempt 1 failed"), delay: 50 });
+  });
+
+  it("gives up once the attempts run out, or the error shouldn't be retried", async () => {
+    const exhausted = createFlakyStore(5, { attempts: 2, backoff: () => 10 });
+    const loading = exhausted.load(1);
+    await settle();
+    jest.advanceTimersByTime(10);
+    await expect(loading).rejects.toThrow("Attempt 2 failed");
+    expect(exhausted.store.getErrors().user).toEqual(Error("Attempt 2 failed"));
+
+    const notRetried = createFlakyStore(5, { attempts: 3, retryIf: (error) => !(error as Error).message.includes("1") });
+    await expect(notRetried.load(1)).rejects.toThrow("Attempt 1 failed");
+    expect(notRetried.resolver).toHaveBeenCalledTimes(1);
+  });
+
+  it("stops retrying once the action is cancelled", async () => {
+    const { store, load, resolver } = createFlakyStore(1, { attempts: 3 });
+
+    const loading = load(1);
+    await settle();
+    load.cancel();
+    await loading;
+
+    jest.runAllTimers();
+    expect(resolver).toHaveBeenCalledTimes(1);
+    expect(store.getPending().user).toBe(false);
+    expect(store.getErrors().user).toBeUndefined();
+  });
+});
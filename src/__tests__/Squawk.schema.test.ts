@@ -0,0 +1,108 @@
+import createStore, { createMemoryChannel, createMemoryStorage, SchemaAdapter, ValidationError } from "../Squawk";
+
+describe("Squawk runtime validation", () => {
+  /** A minimal schema, shaped like the ones from zod */
+  const numberSchema: SchemaAdapter<number> = {
+    parse(value) {
+      if (typeof value !== "number") {
+        throw Error(`Expected number, received ${typeof value}`);
+      }
+      return value;
+    }
+  };
+
+  const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+  afterEach(() => {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    delete (global as any).window;
+  });
+
+  it("rejects invalid updates with a descriptive error, leaving the state untouched", () => {
+    const store = createStore({ name: "John", age: 30 }, { validate: { name: (name) => name.length > 0, age: numberSchema } });
+    const subscriber = jest.fn();
+    store.subscribe("name", subscriber);
+
+    expect(() => store.update({ name: "" })).toThrow(ValidationError);
+    expect(() => store.update({ name: "Jane", age: ("thirty" as unknown) as number })).toThrow(`Invalid value for "age" (Expected number, received string)`);
+
+    expect(store.get()).toEqual({ name: "John", age: 30 });
+    expect(subscriber).not.toHaveBeenCalled();
+
+    store.update({ name: "Jane", age: 31 });
+    expect(store.get()).toEqual({ name: "Jane", age: 31 });
+  });
+
+  it("validates the results of actions, and reports rejected results as errors", async () => {
+    const store = createStore({ count: 0 }, { validate: { count: (count) => count >= 0 } });
+    const decrement = store.action((state) => ({ count: state.count - 1 }), ["count"]);
+
+    await expect(decrement()).rejects.toThrow(`Invalid value for "count"`);
+    expect(store.get().count).toBe(0);
+    expect(store.getErrors().count).toBeInstanceOf(ValidationError);
+  });
+
+  it("reports invalid updates to onValidationError instead of throwing, unless validation is strict", () => {
+    const onValidationError = jest.fn();
+    const store = createStore({ name: "John", age: 30 }, { validate: { name: (name) => name.length > 0 }, strictValidation: false, onValidationError });
+
+    expect(() => store.update({ name: "", age: 31 })).not.toThrow();
+
+    expect(store.get()).toEqual({ name: "John", age: 30 });
+    expect(onValidationError).toHaveBeenCalledWith(expect.any(ValidationError), { type: "update" });
+    expect(onValidationError.mock.calls[0][0].issues).toEqual([{ prop: "name", value: "" }]);
+  });
+
+  it("drops invalid states sent from Redux dev tools", () => {
+    const listeners = Array<(msg: { type: string; state?: string; payload?: { type: string } }) => void>();
+    // eslint-disable-next-line immutable/no-mutation, @typescript-eslint/no-explicit-any
+    (global as any).window = {
+      __REDUX_DEVTOOLS_EXTENSION__: {
+        connect: () => ({ subscribe: (cb: typeof listeners[0]) => listeners.push(cb), send: jest.fn(), init: jest.fn() })
+      }
+    };
+    const onValidationError = jest.fn();
+    const store = createStore({ foo: "bar" }, { reduxDevTools: true, validate: { foo: (foo) => typeof foo === "string" }, onValidationError });
+
+    expect(() => listeners[0]({ type: "DISPATCH", payload: { type: "JUMP_TO_STATE" }, state: JSON.stringify({ foo: 42 }) })).not.toThrow();
+
+    expect(store.get().foo).toBe("bar");
+    expect(onValidationError).toHaveBeenCalledWith(expect.any(ValidationError), { type: "devtools" });
+  });
+
+  it("ignores invalid persisted and server state, keeping the valid props", () => {
+    const storage = createMemoryStorage();
+    storage.setItem("app", JSON.stringify({ version: 0, state: { foo: 42, baz: 2 } }));
+    const onValidationError = jest.fn();
+
+    const store = createStore<{ foo: string; baz: number; qux: boolean }>(
+      { foo: "bar", baz: 1, qux: true },
+      {
+        persist: { key: "app", storage },
+        serverState: ({ qux: "yes" } as unknown) as { qux: boolean },
+        validate: { foo: (foo) => typeof foo === "string", qux: (qux) => typeof qux === "boolean" },
+        onValidationError
+      }
+    );
+
+    expect(store.get()).toEqual({ foo: "bar", baz: 2, qux: true });
+    expect(onValidationError).toHaveBeenCalledTimes(2);
+    expect(onValidationError).toHaveBeenCalledWith(expect.any(ValidationError), { type: "hydration" });
+  });
+
+  it("drops invalid changes received from other tabs", async () => {
+    const channel = createMemoryChannel();
+    const onValidationError = jest.fn();
+    const sender = createStore({ count: 0 }, { sync: { channel: "app", keys: ["count"], transport: channel.createTransport() } });
+    const receiver = createStore({ count: 0 }, { sync: { channel: "app", keys: ["count"], transport: channel.createTransport() }, validate: { count: (count) => count < 10 }, onValidationError });
+
+    sender.update({ count: 5 });
+    await flush();
+    expect(receiver.get().count).toBe(5);
+
+    sender.update({ count: 50 });
+    await flush();
+    expect(receiver.get().count).toBe(5);
+    expect(onValidationError).toHaveBeenCalledWith(expect.any(ValidationError), { type: "sync" });
+  });
+});
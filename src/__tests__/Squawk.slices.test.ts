@@ -0,0 +1,131 @@
+import * as React from "react";
+import * as renderer from "react-test-renderer";
+
+import { combineSlices, createSlice, getActionContext } from "../Squawk";
+
+const { act } = renderer;
+
+describe("Squawk slices", () => {
+  const createCounterSlice = () =>
+    createSlice({
+      name: "counter",
+      initialState: { count: 0, step: 1 },
+      actions: {
+        increment: (state) => ({ count: state.count + state.step }),
+        load: {
+          resolver: (_state, count: number) => new Promise<{ count: number }>((resolve) => setTimeout(() => resolve({ count }), 10)),
+          affectedContexts: ["count"]
+        }
+      }
+    });
+
+  const createUserSlice = () => createSlice({ name: "user", initialState: { name: "", count: 0 } });
+
+  it("combines slices into a store with namespaced keys", async () => {
+    const counter = createCounterSlice();
+    const user = createUserSlice();
+    const store = combineSlices([counter, user]);
+
+    expect(store.get()).toEqual({ "counter/count": 0, "counter/step": 1, "user/name": "", "user/count": 0 });
+
+    await counter.actions.increment();
+    user.update({ name: "John" });
+
+    expect(counter.get()).toEqual({ count: 1, step: 1 });
+    expect(user.get()).toEqual({ name: "John", count: 0 });
+    expect(counter.storeKey("count")).toBe("counter/count");
+    expect(() => user.update({ missing: true } as never)).toThrow(`"missing" is not part of the slice "user"`);
+  });
+
+  it("combines slices with flat keys, rejecting duplicates", () => {
+    const counter = createCounterSlice();
+    const store = combineSlices([counter, createSlice({ name: "user", initialState: { name: "" } })], { keys: "flat" });
+
+    store.update({ count: 5 });
+    expect(store.get().name).toBe("");
+    expect(counter.get().count).toBe(5);
+
+    expect(() => combineSlices([createCounterSlice(), createUserSlice()], { keys: "flat" })).toThrow(`"count" is defined by both slice "counter" and slice "user"`);
+    expect(() => combineSlices([createUserSlice(), createUserSlice()])).toThrow(`Slice "user" is defined more than once`);
+  });
+
+  it("limits actions to the props of the slice, with slice-level pending status and names", async () => {
+    const counter = createCounterSlice();
+    const names = Array<string | undefined>();
+    combineSlices([counter, createUserSlice()], {
+      middleware: [
+        ({ source }, next) => {
+          names.push(source.type === "action" ? source.name : undefined);
+          return next();
+        }
+      ]
+    });
+    const pending = jest.fn();
+    const unsubscribe = counter.subscribe("count", (count) => pending(count, counter.getPending().count));
+
+    const loading = counter.actions.load(5);
+    expect(counter.getPending()).toEqual({ count: true, step: false });
+    await loading;
+
+    expect(counter.getPending().count).toBe(false);
+    expect(pending).toHaveBeenCalledWith(5, true);
+    expect(names).toEqual(["counter/load"]);
+    unsubscribe();
+
+    // The arguments of slice actions are typed by their resolvers
+    // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+    // @ts-expect-error
+    const invalid = counter.actions.load("5");
+    counter.actions.load.cancel();
+    await invalid;
+  });
+
+  it("provides the context of the invocation to slice resolvers", async () => {
+    const search = createSlice({
+      name: "search",
+      initialState: { aborted: true },
+      actions: {
+        run: (state) => ({ aborted: getActionContext(state).signal.aborted })
+      }
+    });
+    combineSlices([search]);
+
+    await search.actions.run();
+    expect(search.get().aborted).toBe(false);
+  });
+
+  it("provides hooks that only see the props of the slice", () => {
+    const counter = createCounterSlice();
+    const user = createUserSlice();
+    combineSlices([counter, user]);
+    const render = jest.fn();
+
+    const TestComponent = () => {
+      const { count } = counter.useSquawk();
+      const double = counter.useSquawkSelector((state) => state.count * 2);
+      const pending = counter.usePending();
+      render(count, double, pending.count);
+      return null;
+    };
+
+    act(() => {
+      renderer.create(React.createElement(TestComponent));
+    });
+    expect(render).toHaveBeenLastCalledWith(0, 0, false);
+
+    act(() => {
+      user.update({ count: 10 });
+    });
+    expect(render).toHaveBeenCalledTimes(1);
+
+    act(() => {
+      counter.update({ count: 3 });
+    });
+    expect(render).toHaveBeenLastCalledWith(3, 6, false);
+  });
+
+  it("throws until the slice has been combined into a store", () => {
+    const counter = createCounterSlice();
+    expect(() => counter.get()).toThrow(`Slice "counter" has not been combined into a store`);
+  });
+});
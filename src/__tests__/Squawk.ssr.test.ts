@@ -0,0 +1,102 @@
+import * as React from "react";
+import * as renderer from "react-test-renderer";
+
+import createStore, { createMemoryStorage, createStateScript, createStoreFactory, readServerState, serializeState } from "../Squawk";
+
+const { act } = renderer;
+
+describe("Squawk server-side rendering", () => {
+  afterEach(() => {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    delete (global as any).window;
+  });
+
+  it("escapes characters that could break out of the script tag", () => {
+    const serialized = serializeState({ html: "</script><script>alert(1)</script>", text: "a & b\u2028" });
+
+    expect(serialized).not.toMatch(/[<>&\u2028]/);
+    expect(JSON.parse(serialized)).toEqual({ html: "</script><script>alert(1)</script>", text: "a & b\u2028" });
+  });
+
+  it("reads the state from the script tag once", () => {
+    const script = createStateScript({ foo: "server" });
+    expect(script).toBe('<script>window["__SQUAWK_STATE__"]={"foo":"server"};</script>');
+
+    // eslint-disable-next-line immutable/no-mutation, @typescript-eslint/no-explicit-any
+    (global as any).window = { __SQUAWK_STATE__: { foo: "server" } };
+
+    expect(readServerState()).toEqual({ foo: "server" });
+    expect(readServerState()).toBeUndefined();
+  });
+
+  it("returns undefined when there is no window", () => {
+    expect(readServerState()).toBeUndefined();
+  });
+
+  it("creates independent stores for every request", () => {
+    const createAppStore = createStoreFactory(() => ({ user: "", todos: Array<string>() }));
+
+    const first = createAppStore();
+    const second = createAppStore();
+    first.update({ user: "john", todos: ["first"] });
+
+    expect(second.get()).toEqual({ user: "", todos: [] });
+    expect(createAppStore({ user: "jane" }).get()).toEqual({ user: "jane", todos: [] });
+  });
+
+  it("applies the server state on creation, ignoring unknown props", () => {
+    const store = createStore({ foo: "bar", baz: 1 }, { serverState: { foo: "server", unknown: true } as Partial<{ foo: string; baz: number }> });
+
+    expect(store.get()).toEqual({ foo: "server", baz: 1 });
+  });
+
+  it("renders the server state until mounted, then the current state", () => {
+    const storage = createMemoryStorage();
+    storage.setItem("app", JSON.stringify({ version: 0, state: { foo: "persisted" } }));
+    const store = createStore({ foo: "bar" }, { serverState: { foo: "server" }, persist: { key: "app", storage } });
+
+    // Persisted state has been restored, but the markup was rendered with the server state
+    expect(store.get().foo).toBe("persisted");
+
+    const rendered = Array<string>();
+    const TestComponent = () => {
+      const { foo } = store.useSquawk();
+      const selected = store.useSquawkSelector((state) => state.foo);
+      rendered.push(`${foo}/${selected}`);
+      return React.createElement("div", null, foo);
+    };
+
+    act(() => {
+      renderer.create(React.createElement(TestComponent));
+    });
+
+    expect(rendered[0]).toBe("server/server");
+    expect(rendered[rendered.length - 1]).toBe("persisted/persisted");
+
+    // Components mounted after hydration render the current state right away
+    rendered.splice(0);
+    act(() => {
+      renderer.create(React.createElement(TestComponent));
+    });
+    expect(rendered).toEqual(["persisted/persisted"]);
+  });
+
+  it("renders no pending state while hydrating", () => {
+    const store = createStore({ foo: "bar" }, { serverState: { foo: "server" } });
+    store.pending(["foo"], true);
+
+    const rendered = Array<boolean>();
+    const TestComponent = () => {
+      const { foo } = store.usePending();
+      rendered.push(foo);
+      return null;
+    };
+
+    act(() => {
+      renderer.create(React.createElement(TestComponent));
+    });
+
+    expect(rendered[0]).toBe(false);
+    expect(rendered[rendered.length - 1]).toBe(true);
+  });
+});
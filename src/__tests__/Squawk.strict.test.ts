@@ -0,0 +1,73 @@
+import * as React from "react";
+import * as renderer from "react-test-renderer";
+
+import createStore, { MutationError } from "../Squawk";
+
+const { act } = renderer;
+
+class Account {
+  balance: number;
+
+  constructor(balance: number) {
+    // eslint-disable-next-line immutable/no-this, immutable/no-mutation
+    this.balance = balance;
+  }
+}
+
+describe("Squawk strict mode", () => {
+  const env = process.env.NODE_ENV;
+
+  afterEach(() => {
+    // eslint-disable-next-line immutable/no-mutation
+    process.env.NODE_ENV = env;
+  });
+
+  it("deep-freezes the state handed to resolvers, subscribers and components", async () => {
+    const store = createStore({ todos: [{ title: "Write tests", done: false }] }, { strict: true });
+    const complete = store.action((state) => {
+      // eslint-disable-next-line immutable/no-mutation
+      state.todos[0].done = true;
+      return { todos: state.todos };
+    });
+
+    await expect(complete()).rejects.toThrow(TypeError);
+    expect(store.get().todos[0].done).toBe(false);
+
+    const subscriber = jest.fn((todos: { title: string; done: boolean }[]) => Object.isFrozen(todos) && Object.isFrozen(todos[0]));
+    store.subscribe("todos", subscriber);
+    store.update({ todos: [{ title: "Write more tests", done: false }] });
+    expect(subscriber).toHaveLastReturnedWith(true);
+
+    const frozen = jest.fn();
+    const TestComponent = () => {
+      const { todos } = store.useSquawk();
+      frozen(Object.isFrozen(todos[0]));
+      return null;
+    };
+    act(() => {
+      renderer.create(React.createElement(TestComponent));
+    });
+    expect(frozen).toHaveBeenLastCalledWith(true);
+  });
+
+  it("throws, naming the path, when a mutated object from the store is passed back to it", () => {
+    const store = createStore({ profile: { name: "John", account: new Account(100) } }, { strict: true });
+    const { profile } = store.get();
+
+    // Class instances aren't frozen, but mutating them is detected
+    // eslint-disable-next-line immutable/no-mutation
+    profile.account.balance = 200;
+
+    expect(() => store.update({ profile: { ...profile } })).toThrow(MutationError);
+    expect(() => store.update({ profile: { ...profile } })).toThrow(`"profile.account.balance" has been mutated`);
+    expect(() => store.update({ profile: { ...profile, account: new Account(200) } })).not.toThrow();
+  });
+
+  it("is disabled in production builds", () => {
+    // eslint-disable-next-line immutable/no-mutation
+    process.env.NODE_ENV = "production";
+    const store = createStore({ todos: ["Write tests"] }, { strict: true });
+
+    expect(Object.isFrozen(store.get().todos)).toBe(false);
+  });
+});
@@ -0,0 +1,119 @@
+import createStore, { createBroadcastTransport, createMemoryChannel, SyncMessage } from "../Squawk";
+
+// Messages on the memory channel are delivered asynchronously, like with BroadcastChannel
+const flushMessages = () => Promise.resolve();
+
+describe("Squawk cross-tab sync", () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    delete (global as any).window;
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    delete (global as any).BroadcastChannel;
+  });
+
+  const createTabs = () => {
+    const channel = createMemoryChannel();
+    const create = () => createStore({ user: "john", theme: "light", draft: "" }, { sync: { channel: "app", keys: ["user", "theme"], transport: channel.createTransport() } });
+    return [create(), create()];
+  };
+
+  it("applies changes from other tabs, and notifies subscribers", async () => {
+    const [first, second] = createTabs();
+    const callback = jest.fn();
+    second.subscribe("user", callback);
+
+    first.update({ user: "jane", draft: "local only" });
+    expect(second.get().user).toBe("john");
+
+    await flushMessages();
+
+    expect(second.get()).toEqual({ user: "jane", theme: "light", draft: "" });
+    expect(callback).toHaveBeenCalledWith("jane");
+  });
+
+  it("doesn't send changes received from other tabs back", async () => {
+    const channel = createMemoryChannel();
+    const transport = channel.createTransport();
+    const send = jest.spyOn(transport, "send");
+    const first = createStore({ user: "john" }, { sync: { channel: "app", keys: ["user"], transport } });
+    const second = createStore({ user: "john" }, { sync: { channel: "app", keys: ["user"], transport: channel.createTransport() } });
+
+    second.update({ user: "jane" });
+    await flushMessages();
+
+    expect(first.get().user).toBe("jane");
+    expect(send).not.toHaveBeenCalled();
+  });
+
+  it("resolves conflicts by letting the last writer win", async () => {
+    const [first, second] = createTabs();
+    const now = jest.spyOn(Date, "now");
+
+    now.mockReturnValue(2000);
+    first.update({ theme: "dark" });
+    // Made earlier, but received later
+    now.mockReturnValue(1000);
+    second.update({ theme: "blue" });
+
+    await flushMessages();
+
+    expect(first.get().theme).toBe("dark");
+    expect(second.get().theme).toBe("dark");
+  });
+
+  it("supports a custom conflict policy", async () => {
+    const channel = createMemoryChannel();
+    const conflict = jest.fn((_prop, local, incoming) => [...local.value, ...incoming.value]);
+    const create = () => createStore({ tags: Array<string>() }, { sync: { channel: "app", keys: ["tags"], transport: channel.createTransport(), conflict } });
+    const first = create();
+    const second = create();
+
+    first.update({ tags: ["a"] });
+    await flushMessages();
+
+    expect(conflict).toHaveBeenCalledWith("tags", { value: [], timestamp: 0 }, { value: ["a"], timestamp: expect.any(Number) });
+    expect(second.get().tags).toEqual(["a"]);
+  });
+
+  it("falls back to storage events without BroadcastChannel", () => {
+    const listeners = Array<(event: { key: string; newValue: string }) => void>();
+    const setItem = jest.fn();
+    // eslint-disable-next-line immutable/no-mutation, @typescript-eslint/no-explicit-any
+    (global as any).window = { localStorage: { setItem }, addEventListener: (_: string, listener: typeof listeners[0]) => listeners.push(listener) };
+
+    const store = createStore({ user: "john" }, { sync: { channel: "app", keys: ["user"], transport: createBroadcastTransport("app") } });
+
+    store.update({ user: "jane" });
+    expect(setItem).toHaveBeenCalledWith("squawk-sync:app", expect.stringContaining('"user":"jane"'));
+
+    const message: SyncMessage = { sender: "other", timestamp: Date.now() + 1000, values: { user: "joe" } };
+    listeners.forEach((listener) => listener({ key: "squawk-sync:app", newValue: JSON.stringify(message) }));
+    expect(store.get().user).toBe("joe");
+  });
+
+  it("stops sending and receiving changes once closed", async () => {
+    const [first, second] = createTabs();
+
+    second.sync.close();
+    first.update({ user: "jane" });
+    second.update({ theme: "dark" });
+    await flushMessages();
+
+    expect(first.get().theme).toBe("light");
+    expect(second.get().user).toBe("john");
+  });
+
+  it("closes the BroadcastChannel it created", () => {
+    const close = jest.fn();
+    // eslint-disable-next-line immutable/no-mutation, @typescript-eslint/no-explicit-any
+    (global as any).window = {};
+    // eslint-disable-next-line immutable/no-mutation, @typescript-eslint/no-explicit-any
+    (global as any).BroadcastChannel = jest.fn(() => ({ addEventListener: jest.fn(), removeEventListener: jest.fn(), postMessage: jest.fn(), close }));
+
+    const store = createStore({ user: "john" }, { sync: { channel: "app", keys: ["user"] } });
+    store.sync.close();
+
+    expect(close).toHaveBeenCalledTimes(1);
+  });
+});
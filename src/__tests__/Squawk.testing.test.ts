@@ -0,0 +1,120 @@
+import { createTestStore, mockAction, resetStore, squawkMatchers } from "../testing";
+
+expect.extend(squawkMatchers);
+
+describe("Squawk testing utilities", () => {
+  it("creates a store with the overrides applied, and resets it to that state", async () => {
+    const store = createTestStore({ foo: "bar", count: 0 }, { count: 5 }, { history: {} });
+    const failing = store.action(() => Promise.reject(Error("Request failed")), ["foo"]);
+
+    store.update({ foo: "updated" });
+    store.pending("count", true);
+    store.pending("count", true);
+    await expect(failing()).rejects.toThrow();
+
+    resetStore();
+
+    expect(store.get()).toEqual({ foo: "bar", count: 5 });
+    expect(store.getPending()).toEqual({ foo: false, count: false });
+    expect(store.getErrors()).toEqual({ foo: undefined, count: undefined });
+    expect(store.history.canUndo).toBe(false);
+    expect(store.updates.updates).toEqual([]);
+
+    expect(() => resetStore({})).toThrow();
+  });
+
+  it("records every update, along with its keys and source", async () => {
+    const store = createTestStore({ foo: "bar", count: 0 });
+    const increment = store.action((state) => ({ count: state.count + 1 }), [], { name: "increment" });
+
+    store.update({ foo: "updated" });
+    await increment();
+
+    expect(store.updates.updates).toEqual([
+      { keys: ["foo"], values: { foo: "updated" }, source: { type: "update" } },
+      { keys: ["count"], values: { count: 1 }, source: { type: "action", name: "increment", args: [] } }
+    ]);
+    expect(store).toHaveBeenUpdatedWith({ count: 1 });
+    expect(store).not.toHaveBeenUpdatedWith({ count: 2 });
+    expect(store).toHaveBeenUpdatedTimes(2);
+  });
+
+  it("only records the changes that were applied, including rollbacks", () => {
+    const store = createTestStore({ foo: "bar", count: 0 }, {}, { validate: { count: (count) => count >= 0 }, strictValidation: false });
+
+    store.update({ foo: "bar", count: 1 });
+    store.update({ count: -1 });
+    expect(() =>
+      store.transaction(() => {
+        store.update({ count: 2 });
+        throw Error("Failed");
+      })
+    ).toThrow("Failed");
+
+    expect(store.updates.updates).toEqual([
+      { keys: ["count"], values: { count: 1 }, source: { type: "update" } },
+      { keys: ["count"], values: { count: 2 }, source: { type: "update" } },
+      { keys: ["count"], values: { count: 1 }, source: { type: "rollback" } }
+    ]);
+    expect(store).not.toHaveBeenUpdatedWith({ foo: "bar" });
+    expect(store).not.toHaveBeenUpdatedWith({ count: -1 });
+  });
+
+  it("replaces action resolvers, keeping pending status and errors", async () => {
+    const store = createTestStore({ user: "" });
+    const load = store.action((_state, id: number) => ({ user: `Real user ${id}` }), ["user"]);
+
+    const resolver = jest.fn(() => ({ user: "Mock user" }));
+    const restore = mockAction(load, resolver);
+
+    await load(1);
+    expect(resolver).toHaveBeenCalledWith(expect.anything(), 1);
+    expect(store.get().user).toBe("Mock user");
+
+    restore();
+    await load(2);
+    expect(store.get().user).toBe("Real user 2");
+  });
+
+  it("waits for pending status and state", async () => {
+    const store = createTestStore({ user: "" });
+    // eslint-disable-next-line immutable/no-let
+    let respond: () => void = () => undefined;
+    const load = store.action(() => new Promise<{ user: string }>((resolve) => (respond = () => resolve({ user: "John" }))), ["user"]);
+
+    load();
+    await store.waitForPending("user", true);
+    respond();
+    await store.waitForPending("user");
+
+    const state = await store.waitForState((current) => current.user === "John");
+    expect(state.user).toBe("John");
+
+    await expect(store.waitForState((current) => current.user === "Jane", 10)).rejects.toThrow("Timed out");
+  });
+
+  it("removes its subscriptions when waiting times out", async () => {
+    const store = createTestStore({ user: "" });
+    const unsubscribed = jest.fn();
+    const { subscribe, subscribePending } = store;
+    jest.spyOn(store, "subscribe").mockImplementation(((context: "user", callback: (value: unknown) => void) => {
+      const unsubscribe = subscribe(context, callback);
+      return () => {
+        unsubscribed(context);
+        unsubscribe();
+      };
+    }) as typeof store.subscribe);
+    jest.spyOn(store, "subscribePending").mockImplementation((context, callback) => {
+      const unsubscribe = subscribePending(context, callback);
+      return () => {
+        unsubscribed(`${context} pending`);
+        unsubscribe();
+      };
+    });
+
+    await expect(store.waitForPending("user", true, 10)).rejects.toThrow("Timed out");
+    await expect(store.waitForState((current) => current.user === "Jane", 10)).rejects.toThrow("Timed out");
+
+    expect(unsubscribed.mock.calls).toEqual([["user pending"], ["user"]]);
+  });
+});
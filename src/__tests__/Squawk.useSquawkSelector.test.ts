@@ -0,0 +1,115 @@
+import * as React from "react";
+import * as renderer from "react-test-renderer";
+
+import createStore, { shallowEqual } from "../Squawk";
+
+const { act } = renderer;
+
+describe("useSquawkSelector", () => {
+  const createTodoStore = () =>
+    createStore({
+      todos: [
+        { id: 1, title: "First", done: false },
+        { id: 2, title: "Second", done: false }
+      ],
+      filter: "all",
+      unrelated: 0
+    });
+
+  it("re-renders only when the selected value changes", () => {
+    const store = createTodoStore();
+    const render = jest.fn();
+
+    const TestComponent = () => {
+      const title = store.useSquawkSelector((s) => s.todos.find((todo) => todo.id === 1)?.title);
+      render(title);
+      return React.createElement("div", null, title);
+    };
+
+    act(() => {
+      renderer.create(React.createElement(TestComponent));
+    });
+
+    expect(render).toHaveBeenCalledTimes(1);
+    expect(render).toHaveBeenLastCalledWith("First");
+
+    // Changes another todo, the selected title stays the same
+    act(() => {
+      store.update({ todos: store.get().todos.map((todo) => (todo.id === 2 ? { ...todo, done: true } : todo)) });
+    });
+    expect(render).toHaveBeenCalledTimes(1);
+
+    act(() => {
+      store.update({ todos: store.get().todos.map((todo) => (todo.id === 1 ? { ...todo, title: "Updated" } : todo)) });
+    });
+    expect(render).toHaveBeenCalledTimes(2);
+    expect(render).toHaveBeenLastCalledWith("Updated");
+  });
+
+  it("does not subscribe to contexts the selector doesn't read", () => {
+    const store = createTodoStore();
+    const selector = jest.fn((s: ReturnType<typeof store.get>) => s.filter);
+
+    const TestComponent = () => React.createElement("div", null, store.useSquawkSelector(selector));
+
+    act(() => {
+      renderer.create(React.createElement(TestComponent));
+    });
+    selector.mockClear();
+
+    act(() => {
+      store.update({ unrelated: 1 });
+    });
+    expect(selector).not.toHaveBeenCalled();
+
+    act(() => {
+      store.update({ filter: "done" });
+    });
+    expect(selector).toHaveBeenCalled();
+  });
+
+  it("compares derived objects shallowly by default, and supports a custom comparison", () => {
+    const store = createTodoStore();
+    const render = jest.fn();
+
+    const TestComponent = () => {
+      const counts = store.useSquawkSelector((s) => ({ total: s.todos.length, done: s.todos.filter((todo) => todo.done).length }));
+      const firstTitle = store.useSquawkSelector(
+        (s) => s.todos[0].title,
+        (a, b) => a.toLowerCase() === b.toLowerCase()
+      );
+      render(counts, firstTitle);
+      return React.createElement("div", null, `${counts.done}/${counts.total} ${firstTitle}`);
+    };
+
+    act(() => {
+      renderer.create(React.createElement(TestComponent));
+    });
+
+    act(() => {
+      store.update({ todos: [...store.get().todos] });
+    });
+    expect(render).toHaveBeenCalledTimes(1);
+
+    act(() => {
+      store.update({ todos: store.get().todos.map((todo) => (todo.id === 1 ? { ...todo, title: "FIRST" } : todo)) });
+    });
+    expect(render).toHaveBeenCalledTimes(1);
+
+    act(() => {
+      store.update({ todos: store.get().todos.map((todo) => ({ ...todo, done: true })) });
+    });
+    expect(render).toHaveBeenCalledTimes(2);
+    expect(render).toHaveBeenLastCalledWith({ total: 2, done: 2 }, "First");
+  });
+
+  it("shallowEqual compares own properties by reference", () => {
+    const item = { id: 1 };
+    expect(shallowEqual({ a: 1, b: item }, { a: 1, b: item })).toBe(true);
+    expect(shallowEqual([1, item], [1, item])).toBe(true);
+    expect(shallowEqual({ a: 1, b: item }, { a: 1, b: { id: 1 } })).toBe(false);
+    expect(shallowEqual({ a: 1 }, { a: 1, b: 2 })).toBe(false);
+    expect(shallowEqual(null, {})).toBe(false);
+    expect(shallowEqual(NaN, NaN)).toBe(true);
+  });
+});
@@ -0,0 +1,198 @@
+export interface DevToolsOptions<T> {
+  /** The name of the store instance, as shown in the extension */
+  name?: string;
+  /** The maximum number of actions kept in the history */
+  maxAge?: number;
+  /**
+   * Passed on to the extension, and controls how it serializes the state
+   *
+   * @remarks
+   *
+   * Defaults to letting the extension serialize Date, Map and Set. The reviver is used when deserializing state sent from the extension.
+   */
+  serialize?: {
+    options?: boolean | Record<string, boolean>;
+    replacer?: (key: string, value: unknown) => unknown;
+    reviver?: (key: string, value: unknown) => unknown;
+  };
+  /** Turns a serialized state from the extension back into a state object, overrides the default (JSON.parse with the reviver) */
+  deserialize?: (state: string) => T;
+}
+
+/** An entry in the extension's log */
+export interface DevToolsAction {
+  type: string;
+  [key: string]: unknown;
+}
+
+/** The monitor's internal state, containing every recorded action and the state after it */
+interface LiftedState<T> {
+  actionsById: Record<number, { action: DevToolsAction }>;
+  computedStates: { state: T }[];
+  skippedActionIds: number[];
+  stagedActionIds: number[];
+  [key: string]: unknown;
+}
+
+interface DevToolsMessage<T> {
+  type: string;
+  state?: string;
+  payload?: { type: string; id?: number; status?: boolean; nextLiftedState?: LiftedState<T> };
+}
+
+interface ReduxDevTools<T> {
+  subscribe(callback: (message: DevToolsMessage<T>) => void): void;
+  init(state: T): void;
+  send(action: DevToolsAction | null, state: T | LiftedState<T>): void;
+}
+
+interface WindowWithExtension<T> extends Window {
+  __REDUX_DEVTOOLS_EXTENSION__?: {
+    connect(options?: Record<string, unknown>): ReduxDevTools<T>;
+  };
+}
+
+/** Restores values marked by the extension's serializer (used when serialize.options is enabled) */
+const reviveSerializedTypes = (_: string, value: unknown) => {
+  if (value && typeof value === "object" && "__serializedType__" in value) {
+    const { __serializedType__: type, data } = value as { __serializedType__: string; data: never };
+    switch (type) {
+      case "Date":
+        return new Date(data);
+      case "Map":
+        return new Map(data);
+      case "Set":
+        return new Set(data);
+    }
+  }
+  return value;
+};
+
+/**
+ * Internal helper that connects to the Redux Dev Tools extension (if enabled and installed), and implements the monitor protocol
+ *
+ * @param apply Applies a state sent from the extension to the store, without recording it as a new action
+ */
+// eslint-disable-next-line @typescript-eslint/explicit-module-boundary-types
+export function connectDevTools<T>(options: boolean | DevToolsOptions<T> | undefined, initialState: T, getState: () => T, apply: (state: T) => void) {
+  const extension = typeof window !== "undefined" ? (window as WindowWithExtension<T>).__REDUX_DEVTOOLS_EXTENSION__ : null;
+  if (!options || !extension) {
+    return null;
+  }
+
+  const { name, maxAge, serialize = { options: { date: true, map: true, set: true } }, deserialize } = options === true ? ({} as DevToolsOptions<T>) : options;
+
+  const parse = (serialized: string) =>
+    JSON.parse(serialized, (key, value) => {
+      const revived = reviveSerializedTypes(key, value);
+      return serialize.reviver ? serialize.reviver(key, revived) : revived;
+    });
+  const parseState = (serialized: string): T => (deserialize ? deserialize(serialized) : parse(serialized));
+
+  const devTools = extension.connect({
+    name,
+    maxAge,
+    serialize,
+    features: { pause: true, lock: true, persist: true, export: true, import: "custom", jump: true, skip: true, reorder: false, dispatch: false, test: false }
+  });
+
+  /** While paused, updates aren't sent to the extension */
+  // eslint-disable-next-line immutable/no-let
+  let paused = false;
+  /** While locked, updates from the application are ignored */
+  // eslint-disable-next-line immutable/no-let
+  let locked = false;
+
+  /** Skips (or un-skips) an action, by replaying every other action on top of the initial state of the log */
+  const toggleAction = (liftedState: LiftedState<T>, id: number) => {
+    const { actionsById, computedStates, stagedActionIds } = liftedState;
+    const skippedActionIds = liftedState.skippedActionIds.includes(id) ? liftedState.skippedActionIds.filter((skipped) => skipped !== id) : [...liftedState.skippedActionIds, id];
+
+    // eslint-disable-next-line immutable/no-let
+    let state = computedStates[0].state;
+    const replayed = stagedActionIds.map((actionId, index) => {
+      // The first staged action is the initial state, and every action records the values it updated
+      if (index > 0 && !skippedActionIds.includes(actionId)) {
+        state = { ...state, ...(actionsById[actionId].action.update as Partial<T>) };
+      }
+      return { state };
+    });
+
+    apply(state);
+    devTools.send(null, { ...liftedState, computedStates: replayed, skippedActionIds });
+  };
+
+  const handleDispatch = (message: DevToolsMessage<T>) => {
+    // Older versions of the extension (and tests) may send a state without a payload, treat it as a jump
+    const type = message.payload ? message.payload.type : "JUMP_TO_STATE";
+    switch (type) {
+      case "JUMP_TO_STATE":
+      case "JUMP_TO_ACTION":
+        if (message.state) {
+          apply(parseState(message.state));
+        }
+        break;
+      case "RESET":
+        apply(initialState);
+        devTools.init(getState());
+        break;
+      case "COMMIT":
+        devTools.init(getState());
+        break;
+      case "ROLLBACK":
+        if (message.state) {
+          apply(parseState(message.state));
+          devTools.init(getState());
+        }
+        break;
+      case "IMPORT_STATE": {
+        // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+        const nextLiftedState = message.payload!.nextLiftedState!;
+        const { computedStates } = nextLiftedState;
+        apply(computedStates[computedStates.length - 1].state);
+        devTools.send(null, nextLiftedState);
+        break;
+      }
+      case "TOGGLE_ACTION":
+        if (message.state) {
+          // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+          toggleAction(parse(message.state), message.payload!.id!);
+        }
+        break;
+      case "PAUSE_RECORDING":
+        // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+        paused = message.payload!.status!;
+        break;
+      case "LOCK_CHANGES":
+        // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+        locked = message.payload!.status!;
+        break;
+    }
+  };
+
+  devTools.subscribe((message) => {
+    if (message.type !== "DISPATCH") {
+      return;
+    }
+
+    try {
+      handleDispatch(message);
+    } catch {
+      // Ignore malformed state, and states rejected by the store
+    }
+  });
+
+  devTools.init(getState());
+
+  return {
+    /** Records an action, along with the current state */
+    send(action: DevToolsAction) {
+      if (!paused) {
+        devTools.send(action, getState());
+      }
+    },
+    isLocked() {
+      return locked;
+    }
+  };
+}
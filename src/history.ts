@@ -0,0 +1,165 @@
+export interface HistoryOptions<T> {
+  /** If supplied, only changes to these store props are recorded. Defaults to the entire store */
+  keys?: (keyof T)[];
+  /** The maximum number of entries to keep, defaults to 100 */
+  maxDepth?: number;
+  /** Updates made within this many milliseconds of the previous one are grouped into the same entry */
+  groupWindow?: number;
+}
+
+/** A single undoable change, holding the values of the changed props before and after the change */
+interface HistoryEntry<T> {
+  before: Partial<T>;
+  after: Partial<T>;
+  recorded: number;
+}
+
+/** Internal helper that records changes, and hands back the values to apply on undo and redo */
+// eslint-disable-next-line @typescript-eslint/explicit-module-boundary-types
+export function createHistory<T>(options: HistoryOptions<T> | undefined, apply: (values: Partial<T>, operation: "undo" | "redo") => void) {
+  const { keys, maxDepth = 100, groupWindow = 0 } = options || {};
+
+  const past = Array<HistoryEntry<T>>();
+  const future = Array<HistoryEntry<T>>();
+
+  /** The entry of each open group (i.e. running action or transaction), keyed by the group. Null until the first change within the group */
+  const groups = new Map<unknown, HistoryEntry<T> | null>();
+  /** The latest entry of changes outside of groups, which changes within the group window are merged into */
+  // eslint-disable-next-line immutable/no-let
+  let windowEntry: HistoryEntry<T> | null = null;
+
+  /** Callbacks to invoke whenever canUndo or canRedo may have changed */
+  const listeners = new Set<() => void>();
+  const notify = () => listeners.forEach((listener) => listener());
+
+  const isTracked = (prop: keyof T) => !keys || keys.includes(prop);
+
+  /** Returns the entry that changes are merged into, if it can still be undone */
+  const getOpenEntry = (entry: HistoryEntry<T> | null | undefined) => (entry && past.includes(entry) ? entry : null);
+
+  return {
+    /**
+     * Records a change, given the state before and after it
+     *
+     * @param group The open group the change belongs to, if any. All changes of a group are merged into a single entry
+     */
+    record(props: (keyof T)[], previousState: T, currentState: T, group?: unknown) {
+      const tracked = props.filter(isTracked);
+      if (!options || tracked.length === 0) {
+        return;
+      }
+
+      const now = Date.now();
+      const grouped = group !== undefined && groups.has(group);
+      const open = grouped ? getOpenEntry(groups.get(group)) : windowEntry === past[past.length - 1] ? windowEntry : null;
+      const merge = open && (grouped || now - open.recorded < groupWindow);
+      const entry: HistoryEntry<T> = open && merge ? open : { before: {}, after: {}, recorded: now };
+
+      for (const prop of tracked) {
+        // Grouped entries keep the value from before the first change
+        if (!(prop in entry.before)) {
+          // eslint-disable-next-line immutable/no-mutation
+          entry.before[prop] = previousState[prop];
+        }
+        // eslint-disable-next-line immutable/no-mutation
+        entry.after[prop] = currentState[prop];
+      }
+      // eslint-disable-next-line immutable/no-mutation
+      entry.recorded = now;
+
+      if (!merge) {
+        past.push(entry);
+        if (past.length > maxDepth) {
+          past.shift();
+        }
+      }
+
+      if (grouped) {
+        groups.set(group, entry);
+      } else {
+        windowEntry = entry;
+      }
+      // A new change makes the undone entries unreachable
+      // eslint-disable-next-line immutable/no-mutation
+      future.length = 0;
+      notify();
+    },
+    /**
+     * Records a rollback of changes made within an open group, so that undo and redo never bring back the rolled back values
+     *
+     * @remarks
+     *
+     * Props whose values are back to the ones they had before the entry of the group are dropped from it, as is the entry if no props are left.
+     * Rollbacks outside of a group aren't recorded.
+     */
+    revert(props: (keyof T)[], currentState: T, group?: unknown) {
+      const entry = group && getOpenEntry(groups.get(group));
+      if (!options || !entry) {
+        return;
+      }
+
+      for (const prop of props.filter((prop) => isTracked(prop) && prop in entry.before)) {
+        if (Object.is(entry.before[prop], currentState[prop])) {
+          // eslint-disable-next-line immutable/no-mutation
+          delete entry.before[prop];
+          // eslint-disable-next-line immutable/no-mutation
+          delete entry.after[prop];
+        } else {
+          // eslint-disable-next-line immutable/no-mutation
+          entry.after[prop] = currentState[prop];
+        }
+      }
+
+      if (Object.keys(entry.before).length === 0) {
+        past.splice(past.indexOf(entry), 1);
+        groups.set(group, null);
+      }
+      notify();
+    },
+    /** Opens a group, all changes recorded for it are merged into a single entry until it is closed */
+    beginGroup(group: unknown) {
+      groups.set(group, null);
+    },
+    endGroup(group: unknown) {
+      groups.delete(group);
+    },
+    undo() {
+      const entry = past.pop();
+      if (entry) {
+        future.push(entry);
+        windowEntry = null;
+        apply(entry.before, "undo");
+        notify();
+      }
+    },
+    redo() {
+      const entry = future.pop();
+      if (entry) {
+        past.push(entry);
+        windowEntry = null;
+        apply(entry.after, "redo");
+        notify();
+      }
+    },
+    canUndo() {
+      return past.length > 0;
+    },
+    canRedo() {
+      return future.length > 0;
+    },
+    clear() {
+      // eslint-disable-next-line immutable/no-mutation
+      past.length = 0;
+      // eslint-disable-next-line immutable/no-mutation
+      future.length = 0;
+      notify();
+    },
+    /** Registers a callback that is invoked whenever the history changes, returns a function that removes it */
+    subscribe(listener: () => void) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    }
+  };
+}
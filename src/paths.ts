@@ -0,0 +1,96 @@
+/**
+ * Subscribes to a store prop, or to a nested path within it
+ *
+ * @remarks
+ *
+ * Paths are type-checked as tuples, up to five levels deep. Dotted paths (`"user.preferences.theme"`) can't be type-checked
+ * before TypeScript 4.1, so they are subscribed to with `subscribePath` instead, and only validated when subscribing.
+ */
+export interface PathSubscribe<T> {
+  <K1 extends keyof T>(context: K1 | [K1], callback: (value: T[K1]) => void): () => void;
+  <K1 extends keyof T, K2 extends keyof NonNullable<T[K1]>>(path: [K1, K2], callback: (value: NonNullable<T[K1]>[K2]) => void): () => void;
+  <K1 extends keyof T, K2 extends keyof NonNullable<T[K1]>, K3 extends keyof NonNullable<NonNullable<T[K1]>[K2]>>(
+    path: [K1, K2, K3],
+    callback: (value: NonNullable<NonNullable<T[K1]>[K2]>[K3]) => void
+  ): () => void;
+  <K1 extends keyof T, K2 extends keyof NonNullable<T[K1]>, K3 extends keyof NonNullable<NonNullable<T[K1]>[K2]>, K4 extends keyof NonNullable<NonNullable<NonNullable<T[K1]>[K2]>[K3]>>(
+    path: [K1, K2, K3, K4],
+    callback: (value: NonNullable<NonNullable<NonNullable<T[K1]>[K2]>[K3]>[K4]) => void
+  ): () => void;
+  <
+    K1 extends keyof T,
+    K2 extends keyof NonNullable<T[K1]>,
+    K3 extends keyof NonNullable<NonNullable<T[K1]>[K2]>,
+    K4 extends keyof NonNullable<NonNullable<NonNullable<T[K1]>[K2]>[K3]>,
+    K5 extends keyof NonNullable<NonNullable<NonNullable<NonNullable<T[K1]>[K2]>[K3]>[K4]>
+  >(
+    path: [K1, K2, K3, K4, K5],
+    callback: (value: NonNullable<NonNullable<NonNullable<NonNullable<T[K1]>[K2]>[K3]>[K4]>[K5]) => void
+  ): () => void;
+}
+
+/** Replaces the value at a nested path, copying every object along the path. Paths are type-checked up to five levels deep */
+export interface SetIn<T> {
+  <K1 extends keyof T>(path: [K1], value: T[K1]): void;
+  <K1 extends keyof T, K2 extends keyof NonNullable<T[K1]>>(path: [K1, K2], value: NonNullable<T[K1]>[K2]): void;
+  <K1 extends keyof T, K2 extends keyof NonNullable<T[K1]>, K3 extends keyof NonNullable<NonNullable<T[K1]>[K2]>>(path: [K1, K2, K3], value: NonNullable<NonNullable<T[K1]>[K2]>[K3]): void;
+  <K1 extends keyof T, K2 extends keyof NonNullable<T[K1]>, K3 extends keyof NonNullable<NonNullable<T[K1]>[K2]>, K4 extends keyof NonNullable<NonNullable<NonNullable<T[K1]>[K2]>[K3]>>(
+    path: [K1, K2, K3, K4],
+    value: NonNullable<NonNullable<NonNullable<T[K1]>[K2]>[K3]>[K4]
+  ): void;
+  <
+    K1 extends keyof T,
+    K2 extends keyof NonNullable<T[K1]>,
+    K3 extends keyof NonNullable<NonNullable<T[K1]>[K2]>,
+    K4 extends keyof NonNullable<NonNullable<NonNullable<T[K1]>[K2]>[K3]>,
+    K5 extends keyof NonNullable<NonNullable<NonNullable<NonNullable<T[K1]>[K2]>[K3]>[K4]>
+  >(
+    path: [K1, K2, K3, K4, K5],
+    value: NonNullable<NonNullable<NonNullable<NonNullable<T[K1]>[K2]>[K3]>[K4]>[K5]
+  ): void;
+}
+
+/** A path as a list of keys, the first of which is a store prop */
+export type PathKeys = (string | number)[];
+
+/** Separates the keys of dotted paths, which means that keys containing dots can't be used in dotted paths */
+export const PATH_SEPARATOR = ".";
+
+/** Returns the value at the path, or undefined if any object along the path is missing */
+export const getIn = (source: unknown, path: PathKeys): unknown => {
+  // eslint-disable-next-line immutable/no-let
+  let value = source;
+  for (const key of path) {
+    if (value === null || value === undefined) {
+      return undefined;
+    }
+    value = (value as Record<string | number, unknown>)[key];
+  }
+  return value;
+};
+
+/** Returns a copy of the source with the value at the path replaced, objects and arrays along the path are copied, missing ones are created */
+export const setIn = (source: unknown, path: PathKeys, value: unknown): unknown => {
+  if (path.length === 0) {
+    return value;
+  }
+
+  const [key, ...rest] = path;
+  const child = setIn(source === null || source === undefined ? undefined : (source as Record<string | number, unknown>)[key], rest, value);
+  if (Array.isArray(source)) {
+    const copy = [...source];
+    // eslint-disable-next-line immutable/no-mutation
+    copy[key as number] = child;
+    return copy;
+  }
+  return { ...(source as Record<string | number, unknown>), [key]: child };
+};
+
+/** Checks if a value is a plain object or an array, i.e. something that nested paths are tracked within */
+export const isTraversable = (value: unknown): value is Record<string, unknown> => {
+  if (!value || typeof value !== "object") {
+    return false;
+  }
+  const prototype = Object.getPrototypeOf(value);
+  return Array.isArray(value) || prototype === Object.prototype || prototype === null;
+};
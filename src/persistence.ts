@@ -0,0 +1,250 @@
+import { isPromise, pick } from "./utils";
+
+/** Minimal storage interface, compatible with localStorage and sessionStorage. Custom adapters may be async */
+export interface StorageAdapter {
+  getItem(key: string): string | null | undefined | Promise<string | null | undefined>;
+  setItem(key: string, value: string): void | Promise<void>;
+  removeItem(key: string): void | Promise<void>;
+}
+
+/** Receives the persisted state of the previous version, and returns it in the shape of the next version */
+export type Migration = (state: Record<string, unknown>) => Record<string, unknown>;
+
+export interface PersistOptions<T> {
+  /** The key under which the state is stored in the storage adapter */
+  key: string;
+  /** Where to store the state, see `createWebStorage` and `createMemoryStorage` */
+  storage: StorageAdapter;
+  /** If supplied, only these store props will be persisted */
+  include?: (keyof T)[];
+  /** If supplied, these store props will never be persisted */
+  exclude?: (keyof T)[];
+  /** Minimum number of milliseconds between writes. If omitted, the state is written after every update */
+  throttle?: number;
+  /** Schema version of the persisted state, defaults to 0 */
+  version?: number;
+  /** Migrations, keyed by the version they migrate *to*. Run in order on hydration when the stored version is older */
+  migrations?: Record<number, Migration>;
+}
+
+/** The structure actually written to the storage */
+interface PersistedState {
+  version: number;
+  state: Record<string, unknown>;
+}
+
+/** Creates a storage adapter that keeps everything in memory, useful for tests and for SSR */
+export const createMemoryStorage = (): StorageAdapter => {
+  const items = new Map<string, string>();
+  return {
+    getItem(key) {
+      return items.get(key) ?? null;
+    },
+    setItem(key, value) {
+      items.set(key, value);
+    },
+    removeItem(key) {
+      items.delete(key);
+    }
+  };
+};
+
+/**
+ * Creates a storage adapter for localStorage or sessionStorage
+ *
+ * @remarks
+ *
+ * The storage is resolved lazily, and falls back to an in-memory storage if the storage isn't available (i.e. on the server)
+ */
+export const createWebStorage = (type: "localStorage" | "sessionStorage"): StorageAdapter => {
+  const fallback = createMemoryStorage();
+  const resolve = (): StorageAdapter => {
+    try {
+      return (typeof window !== "undefined" && window[type]) || fallback;
+    } catch {
+      // Accessing the storage may throw if it has been disabled by the user
+      return fallback;
+    }
+  };
+
+  return {
+    getItem: (key) => resolve().getItem(key),
+    setItem: (key, value) => resolve().setItem(key, value),
+    removeItem: (key) => resolve().removeItem(key)
+  };
+};
+
+/** Internal helper that handles reading, migrating and (throttled) writing of the persisted state */
+// eslint-disable-next-line @typescript-eslint/explicit-module-boundary-types
+export function createPersistor<T>(options: PersistOptions<T>, getState: () => T, onHydrate: (values: Partial<T>) => void) {
+  const { key, storage, include, exclude, throttle, migrations = {} } = options;
+  const version = options.version ?? 0;
+
+  // eslint-disable-next-line immutable/no-let
+  let hydrated = false;
+  // eslint-disable-next-line immutable/no-let
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  /** The state as it was last read or written, props that aren't part of the state keep their stored values */
+  // eslint-disable-next-line immutable/no-let
+  let stored: Record<string, unknown> = {};
+
+  /** Props updated before hydration completed, which keep their current values instead of being restored */
+  const changedBeforeHydration = new Set<keyof T>();
+
+  /** Callbacks to invoke once hydration has completed */
+  const listeners = new Set<() => void>();
+
+  const isPersisted = (prop: keyof T) => (!include || include.includes(prop)) && (!exclude || !exclude.includes(prop));
+
+  const write = () => {
+    timer = undefined;
+    const state = getState();
+    const persisted: PersistedState = { version, state: {} };
+    // Props that aren't part of the state, e.g. because they haven't been registered yet, must not be lost
+    for (const prop of Object.keys(stored)) {
+      if (!(prop in state)) {
+        // eslint-disable-next-line immutable/no-mutation
+        persisted.state[prop] = stored[prop];
+      }
+    }
+    for (const prop of Object.keys(state) as (keyof T)[]) {
+      if (isPersisted(prop)) {
+        // eslint-disable-next-line immutable/no-mutation
+        persisted.state[prop as string] = state[prop];
+      }
+    }
+    stored = persisted.state;
+
+    try {
+      const result = storage.setItem(key, JSON.stringify(persisted));
+      if (isPromise(result)) {
+        // Failed writes are not fatal, the next write will try again
+        result.catch(() => undefined);
+      }
+    } catch {
+      // Ignore storage errors (quota exceeded, storage disabled, etc.)
+    }
+  };
+
+  /** Parses and migrates the raw stored value, returns null if there is nothing usable to restore */
+  const restore = (raw: string | null | undefined): Partial<T> | null => {
+    if (!raw) {
+      return null;
+    }
+
+    try {
+      const persisted = JSON.parse(raw) as PersistedState;
+      // eslint-disable-next-line immutable/no-let
+      let state = persisted.state;
+
+      // We can't migrate backwards, so state from a newer version is discarded
+      if (!state || typeof state !== "object" || persisted.version > version) {
+        return null;
+      }
+
+      // eslint-disable-next-line immutable/no-let
+      for (let v = persisted.version + 1; v <= version; v++) {
+        if (migrations[v]) {
+          state = migrations[v](state);
+        }
+      }
+
+      const values: Partial<T> = {};
+      for (const prop of Object.keys(state) as (keyof T)[]) {
+        if (isPersisted(prop)) {
+          // eslint-disable-next-line immutable/no-mutation
+          values[prop] = state[prop as string] as T[keyof T];
+        }
+      }
+      return values;
+    } catch {
+      // Ignore malformed JSON and failing migrations
+      return null;
+    }
+  };
+
+  const scheduleWrite = () => {
+    if (!throttle) {
+      write();
+    } else if (!timer) {
+      timer = setTimeout(write, throttle);
+    }
+  };
+
+  const complete = (raw: string | null | undefined) => {
+    const values = restore(raw);
+    hydrated = true;
+    if (values) {
+      stored = { ...values };
+      const restored = pick(
+        values,
+        (Object.keys(values) as (keyof T)[]).filter((prop) => !changedBeforeHydration.has(prop))
+      );
+      if (Object.keys(restored).length > 0) {
+        onHydrate(restored);
+      }
+    }
+    // The props updated in the meantime haven't been written yet
+    if (changedBeforeHydration.size > 0) {
+      changedBeforeHydration.clear();
+      scheduleWrite();
+    }
+    listeners.forEach((listener) => listener());
+  };
+
+  return {
+    /** Reads the persisted state. Synchronous adapters hydrate immediately, async adapters once the read resolves */
+    hydrate() {
+      // eslint-disable-next-line immutable/no-let
+      let raw: ReturnType<StorageAdapter["getItem"]>;
+      try {
+        raw = storage.getItem(key);
+      } catch {
+        raw = null;
+      }
+
+      if (isPromise<string | null | undefined>(raw)) {
+        raw.then(complete, () => complete(null));
+      } else {
+        complete(raw);
+      }
+    },
+    /** Schedules a write if any of the updated props are persisted */
+    schedule(props: (keyof T)[]) {
+      const persisted = props.filter(isPersisted);
+      if (persisted.length === 0) {
+        return;
+      }
+
+      // Writing before hydration would overwrite the persisted state with the initial state, the props are written once it completes
+      if (!hydrated) {
+        persisted.forEach((prop) => changedBeforeHydration.add(prop));
+        return;
+      }
+
+      scheduleWrite();
+    },
+    /** Writes any pending changes immediately */
+    flush() {
+      if (timer) {
+        clearTimeout(timer);
+        write();
+      }
+    },
+    /** Returns the stored value of the prop, if any, e.g. for a prop that wasn't part of the state when it was hydrated */
+    getStored(prop: keyof T): Partial<T> {
+      return prop in stored ? ({ [prop]: stored[prop as string] } as Partial<T>) : {};
+    },
+    isHydrated() {
+      return hydrated;
+    },
+    /** Registers a callback that is invoked when hydration completes, returns a function that removes it */
+    onHydrated(listener: () => void) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    }
+  };
+}
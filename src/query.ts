@@ -0,0 +1,196 @@
+import { useSyncExternalStore } from "./useSyncExternalStore";
+
+export interface QueryOptions<A extends unknown[]> {
+  /** How long (in milliseconds) a result is fresh, defaults to 0. Stale results are still served, but refreshed whenever they are requested */
+  cacheTime?: number;
+  /** How long (in milliseconds) a result is kept in the cache once it is no longer the current result, defaults to 5 minutes */
+  evictTime?: number;
+  /** Identifies the arguments of a request, requests with the same key share their result. Defaults to `JSON.stringify(args)` */
+  key?: (...args: A) => string;
+  /** Used to identify the action that fetches the data, e.g. in middleware */
+  name?: string;
+}
+
+/** Describes the data of a query, as of the latest request */
+export interface QueryStatus {
+  /** True if there is no result yet, or if the result is older than the cache time or has been invalidated */
+  isStale: boolean;
+  /** When the result was fetched, or null if nothing has been fetched yet */
+  lastUpdated: number | null;
+}
+
+/** A result fetched by a query, along with the arguments it was requested with */
+interface CacheEntry<V, A> {
+  args: A;
+  value: V;
+  updated: number;
+  invalidated: boolean;
+}
+
+/** The parts of a store used by a query */
+export interface QueryStore<S, V> {
+  /** Creates an action that marks the store prop as pending while the resolver runs, and writes the value it returns to the prop */
+  action(resolver: (state: S, ...args: unknown[]) => Promise<V>): ((...args: unknown[]) => Promise<unknown>) & { cancel(): void };
+  /** Returns the value of the store prop */
+  get(): V;
+  /** Writes a cached value to the store prop */
+  apply(value: V, args: unknown[]): void;
+  /** Whether the store prop has any subscribers, such as mounted components */
+  isSubscribed(): boolean;
+}
+
+/** Internal helper that caches, deduplicates and refreshes the requests made for a single store prop */
+// eslint-disable-next-line @typescript-eslint/explicit-module-boundary-types
+export function createQuery<S, V, A extends unknown[]>(fetcher: (state: S, ...args: A) => V | Promise<V>, options: QueryOptions<A>, store: QueryStore<S, V>) {
+  const { cacheTime = 0, evictTime = 300000, key = (...args: A) => JSON.stringify(args) } = options;
+
+  /** Results, keyed by the arguments they were requested with */
+  const cache = new Map<string, CacheEntry<V, A>>();
+  /** When each result that isn't current stopped being used, results unused for longer than the evict time are removed from the cache */
+  const unused = new Map<string, number>();
+  /** Requests currently in flight, keyed by their arguments */
+  const requests = new Map<string, Promise<void>>();
+  /** The key of the latest request, whose result is held by the store prop */
+  // eslint-disable-next-line immutable/no-let
+  let current: string | null = null;
+
+  /** Callbacks to invoke whenever the status may have changed */
+  const listeners = new Set<() => void>();
+  // eslint-disable-next-line immutable/no-let
+  let status: QueryStatus = { isStale: true, lastUpdated: null };
+
+  const isStale = (entry: CacheEntry<V, A>) => entry.invalidated || Date.now() - entry.updated >= cacheTime;
+
+  /** Returns the status of the current result, keeping the same object for as long as it is unchanged */
+  const getStatus = (): QueryStatus => {
+    const entry = current === null ? undefined : cache.get(current);
+    const next = { isStale: !entry || isStale(entry), lastUpdated: entry ? entry.updated : null };
+    if (next.isStale !== status.isStale || next.lastUpdated !== status.lastUpdated) {
+      status = next;
+    }
+    return status;
+  };
+
+  const notify = () => listeners.forEach((listener) => listener());
+
+  /** Removes the results that haven't been used for the evict time, which is checked whenever data is requested rather than with timers */
+  const evict = () => {
+    const now = Date.now();
+    unused.forEach((since, entryKey) => {
+      if (now - since >= evictTime) {
+        unused.delete(entryKey);
+        cache.delete(entryKey);
+      }
+    });
+  };
+
+  /** Makes the result for the key the one held by the store prop, the previous one is evicted unless it is requested again */
+  const setCurrent = (requestKey: string) => {
+    if (current !== null && current !== requestKey && cache.has(current)) {
+      unused.set(current, Date.now());
+    }
+    unused.delete(requestKey);
+    current = requestKey;
+    evict();
+    notify();
+  };
+
+  const subscribe = (listener: () => void) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  };
+
+  const action = store.action(async (state, ...args) => {
+    const value = await fetcher(state, ...(args as A));
+    const entryKey = key(...(args as A));
+    cache.set(entryKey, { args: args as A, value, updated: Date.now(), invalidated: false });
+    // E.g. the result of a request that has been superseded by a request for other arguments
+    if (entryKey !== current) {
+      unused.set(entryKey, Date.now());
+    }
+    return value;
+  });
+
+  /** Requests the data, unless a request with the same arguments is already in flight */
+  const request = (args: A) => {
+    const requestKey = key(...args);
+    setCurrent(requestKey);
+
+    const inFlight = requests.get(requestKey);
+    if (inFlight) {
+      return inFlight;
+    }
+
+    const clear = () => {
+      // A later request with the same arguments may have replaced this one, if it was aborted
+      if (requests.get(requestKey) === promise) {
+        requests.delete(requestKey);
+      }
+      notify();
+    };
+    // The action aborts the requests in flight, whose results are discarded, so they must not be reused
+    requests.clear();
+    const promise: Promise<void> = action(...args).then(clear, (error) => {
+      clear();
+      throw error;
+    });
+    requests.set(requestKey, promise);
+    return promise;
+  };
+
+  return {
+    /**
+     * Fetches the data for the arguments into the store prop
+     *
+     * @remarks
+     *
+     * A fresh cached result is served without making a request. A stale one is served while the data is fetched again.
+     * While a request with the same arguments is in flight, its promise is returned instead of making another request.
+     */
+    fetch(...args: A): Promise<void> {
+      const requestKey = key(...args);
+      const entry = cache.get(requestKey);
+      // Cached results are served right away, even if they are stale
+      if (entry && !Object.is(store.get(), entry.value)) {
+        store.apply(entry.value, args);
+      }
+
+      if (entry && !isStale(entry) && !requests.has(requestKey)) {
+        setCurrent(requestKey);
+        return Promise.resolve();
+      }
+
+      return request(args);
+    },
+    /**
+     * Marks every cached result as stale, and fetches the current one again if the store prop has any subscribers (such as mounted components)
+     *
+     * @remarks
+     *
+     * Stale results are served until the new data has been fetched.
+     */
+    invalidate(): Promise<void> {
+      cache.forEach((entry) => {
+        // eslint-disable-next-line immutable/no-mutation
+        entry.invalidated = true;
+      });
+      notify();
+
+      const entry = current === null ? undefined : cache.get(current);
+      return entry && store.isSubscribed() ? request(entry.args) : Promise.resolve();
+    },
+    /** Aborts the requests in flight, their results are discarded */
+    cancel() {
+      action.cancel();
+      requests.clear();
+    },
+    /** Returns whether the current result is stale, and when it was fetched. Staleness is determined when the status is read */
+    getStatus,
+    /** Subscribes to the status of the query, and re-renders when it changes */
+    useStatus(): QueryStatus {
+      return useSyncExternalStore(subscribe, getStatus);
+    }
+  };
+}
@@ -0,0 +1,38 @@
+import type { RetryState } from "./retry";
+
+/** Internal registry of resolvers that replace those of actions, keyed by action. Populated by `mockAction` in the testing module */
+// eslint-disable-next-line @typescript-eslint/ban-types
+export const mockedResolvers = new WeakMap<object, (...args: never[]) => unknown>();
+
+/** Internal registry of callbacks invoked with the changes applied to a store, and where they originated, keyed by store. Populated by `createTestStore` in the testing module */
+// eslint-disable-next-line @typescript-eslint/ban-types
+export const updateRecorders = new WeakMap<object, (values: Record<string, unknown>, source: { type: string }) => void>();
+
+/** Describes the invocation of an action that a resolver is running for, see `getActionContext`. Actions without a retry policy only make a single attempt */
+export interface ActionContext extends RetryState {
+  /** Aborted if the invocation is superseded (see `ActionOptions.concurrency`), the action is cancelled, or the signal passed to `withSignal` is aborted */
+  signal: AbortSignal;
+}
+
+/** Internal registry of the contexts of running resolvers, keyed by the state passed to the resolver */
+// eslint-disable-next-line @typescript-eslint/ban-types
+export const actionContexts = new WeakMap<object, ActionContext>();
+
+/**
+ * Returns the context of the invocation a resolver is running for, given the store passed to the resolver
+ *
+ * ```ts
+ * const search = action(async (store, query: string) => {
+ *   const { signal } = getActionContext(store);
+ *   return { results: await fetch(`/search?q=${query}`, { signal }).then((r) => r.json()) };
+ * });
+ * ```
+ */
+// eslint-disable-next-line @typescript-eslint/ban-types
+export const getActionContext = (store: object): ActionContext => {
+  const context = actionContexts.get(store);
+  if (!context) {
+    throw Error("getActionContext must be called with the store passed to the resolver of an action");
+  }
+  return context;
+};
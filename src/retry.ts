@@ -0,0 +1,74 @@
+/** How long to wait before the next attempt, given the number of the attempt that failed (starting at 1) and its error */
+export type Backoff = "exponential" | "linear" | ((attempt: number, error: unknown) => number);
+
+export interface RetryOptions {
+  /** The maximum number of attempts, including the first one */
+  attempts: number;
+  /** How long to wait between attempts, defaults to "exponential" */
+  backoff?: Backoff;
+  /** The delay (in milliseconds) after the first failed attempt, which "exponential" doubles and "linear" adds for every attempt. Defaults to 1000 */
+  delay?: number;
+  /** Decides whether the error should be retried, defaults to retrying every error */
+  retryIf?: (error: unknown, attempt: number) => boolean;
+}
+
+/** The attempt of an action with a retry policy, available to the resolver through `getActionContext` */
+export interface RetryState {
+  /** The number of the current attempt, starting at 1 */
+  attempt: number;
+  /** The error of the previous attempt, if any */
+  lastError: unknown;
+}
+
+const getDelay = (backoff: Backoff, delay: number, attempt: number, error: unknown) => {
+  switch (backoff) {
+    case "exponential":
+      return delay * 2 ** (attempt - 1);
+    case "linear":
+      return delay * attempt;
+    default:
+      return backoff(attempt, error);
+  }
+};
+
+/** Waits for the delay, or until the signal is aborted */
+const wait = (delay: number, signal: AbortSignal) =>
+  new Promise<void>((resolve) => {
+    const done = () => {
+      clearTimeout(timer);
+      signal.removeEventListener("abort", done);
+      resolve();
+    };
+    const timer = setTimeout(done, delay);
+    signal.addEventListener("abort", done);
+  });
+
+/**
+ * Internal helper that runs the operation until it succeeds, or fails with an error that shouldn't be retried, or the attempts run out
+ *
+ * @remarks
+ *
+ * If the signal is aborted, no more attempts are made, and the latest error is thrown.
+ */
+export function withRetry<R>(options: RetryOptions, signal: AbortSignal, operation: (state: RetryState) => Promise<R>, onRetry: (attempt: number, error: unknown, delay: number) => void): Promise<R> {
+  const { attempts, backoff = "exponential", delay = 1000, retryIf = () => true } = options;
+
+  const run = async (attempt: number, lastError: unknown): Promise<R> => {
+    try {
+      return await operation({ attempt, lastError });
+    } catch (error) {
+      if (signal.aborted || attempt >= attempts || !retryIf(error, attempt)) {
+        throw error;
+      }
+      const next = getDelay(backoff, delay, attempt, error);
+      onRetry(attempt + 1, error, next);
+      await wait(next, signal);
+      if (signal.aborted) {
+        throw error;
+      }
+      return run(attempt + 1, error);
+    }
+  };
+
+  return run(1, undefined);
+}
@@ -0,0 +1,244 @@
+import { useMemo } from "react";
+
+import { actionContexts, getActionContext } from "./resolvers";
+import type { ActionOptions } from "./Squawk";
+
+/** Resolves an action of a slice, like the resolver of a store action, but given (and returning) the props of the slice only */
+export type SliceResolver<S, A extends unknown[]> = (state: Readonly<Required<S>>, ...args: A) => Partial<S> | undefined | void | Promise<Partial<S> | undefined | void>;
+
+export interface SliceActionDefinition<S, A extends unknown[]> {
+  resolver: SliceResolver<S, A>;
+  /** The props of the slice that are marked as pending while the action is running, and that errors are recorded against */
+  affectedContexts?: (keyof S)[];
+  /** The name of the action is always `<slice>/<action>`. Optimistic updates aren't supported by slices */
+  options?: Omit<ActionOptions, "name" | "optimistic" | "onConflict">;
+}
+
+/** The actions of a slice, either as resolvers, or as resolvers along with their affected contexts and options */
+export type SliceActions<S> = Record<string, SliceResolver<S, never[]> | SliceActionDefinition<S, never[]>>;
+
+type ActionArgs<D> = D extends { resolver: (state: never, ...args: infer A) => unknown } ? A : D extends (state: never, ...args: infer A) => unknown ? A : never;
+
+/** The actions of a slice, invoked like store actions once the slice has been combined into a store */
+export type BoundSliceActions<A> = { [K in keyof A]: ((...args: ActionArgs<A[K]>) => Promise<void>) & { cancel(): void } };
+
+export interface SliceOptions<N extends string, S, A extends SliceActions<S>> {
+  /** Identifies the slice, used as the prefix of namespaced keys and action names */
+  name: N;
+  initialState: Required<S>;
+  actions?: A & SliceActions<S>;
+}
+
+/** How the props of slices are named in the combined store, either `<slice>/<prop>` (namespaced) or `<prop>` (flat) */
+export type SliceKeys = "namespaced" | "flat";
+
+/** Anything that looks like a slice, checked when combined */
+export interface AnySlice {
+  name: string;
+  initialState: unknown;
+}
+
+type UnionToIntersection<U> = (U extends unknown ? (union: U) => void : never) extends (intersection: infer I) => void ? I : never;
+
+/** The state of a store combined from slices. Namespaced keys can't be typed before TypeScript 4.1, so only the slices themselves are typed */
+export type CombinedState<L extends AnySlice[], K extends SliceKeys> = K extends "flat" ? UnionToIntersection<L[number]["initialState"]> : Record<string, unknown>;
+
+type StoreAction = ((...args: unknown[]) => Promise<unknown>) & { cancel(): void };
+
+/** The parts of a store used by the slices combined into it */
+export interface SliceStore {
+  get(): Record<string, unknown>;
+  update(values: Record<string, unknown>): void;
+  action(resolver: (state: Record<string, unknown>, ...args: never[]) => unknown, affectedContexts: string[], options: ActionOptions): StoreAction;
+  subscribe(context: string, callback: (value: unknown) => void): () => void;
+  pending(contexts: string[], state: boolean): void;
+  getPending(): Record<string, boolean>;
+  setError(contexts: string[], error: unknown): void;
+  getErrors(): Record<string, unknown>;
+  useSquawk(...contexts: string[]): Record<string, unknown>;
+  useSquawkSelector<R>(selector: (state: Record<string, unknown>) => R, equalityFn?: (a: R, b: R) => boolean): R;
+  usePending(...contexts: string[]): Record<string, boolean>;
+  useErrors(...contexts: string[]): Record<string, unknown>;
+}
+
+/** A slice combined into a store */
+interface SliceBinding {
+  store: SliceStore;
+  actions: Record<string, StoreAction>;
+  toStore(prop: string): string;
+}
+
+/** Internal registry of functions that bind a slice to a store, keyed by slice. Used by `combineSlices` */
+// eslint-disable-next-line @typescript-eslint/ban-types
+const binders = new WeakMap<object, (store: SliceStore, keys: SliceKeys) => void>();
+
+/** Internal helper that binds a slice to the store it has been combined into */
+export const bindSlice = (slice: { name: string }, store: SliceStore, keys: SliceKeys): void => {
+  const bind = binders.get(slice);
+  if (!bind) {
+    throw Error(`"${slice.name}" is not a slice`);
+  }
+  bind(store, keys);
+};
+
+/**
+ * Defines a part of a store, along with its actions, e.g. next to the feature that uses it. Slices are combined into a store with `combineSlices`
+ *
+ * @remarks
+ *
+ * The methods and hooks of a slice work like those of a store, but only see the props of the slice, by the names they have in the slice.
+ * They throw until the slice has been combined into a store. If a slice is combined into more than one store, it uses the latest one.
+ */
+// eslint-disable-next-line @typescript-eslint/explicit-module-boundary-types, @typescript-eslint/ban-types
+export function createSlice<N extends string, S, A extends SliceActions<S> = {}>(definition: SliceOptions<N, S, A>) {
+  const { name, initialState } = definition;
+  const definedActions = (definition.actions || {}) as SliceActions<S>;
+  type Prop = keyof S & string;
+  type State = Readonly<Required<S>>;
+
+  const props = Object.keys(initialState) as Prop[];
+
+  // eslint-disable-next-line immutable/no-let
+  let binding: SliceBinding | null = null;
+
+  const getBinding = (): SliceBinding => {
+    if (!binding) {
+      throw Error(`Slice "${name}" has not been combined into a store`);
+    }
+    return binding;
+  };
+
+  const toStoreKeys = (contexts: Prop[]) => contexts.map((context) => getBinding().toStore(context));
+
+  /** Returns the props of the slice from the values of the store, read only when accessed so that hooks track what is read */
+  const createView = <V>(source: Record<string, V>, toStore: (prop: string) => string): Record<Prop, V> =>
+    new Proxy({} as Record<Prop, V>, {
+      get: (_, prop) => (typeof prop === "string" && props.includes(prop as Prop) ? source[toStore(prop)] : undefined),
+      has: (_, prop) => props.includes(prop as Prop),
+      ownKeys: () => props,
+      getOwnPropertyDescriptor: (_, prop) => (props.includes(prop as Prop) ? { enumerable: true, configurable: true, writable: false, value: source[toStore(prop as string)] } : undefined)
+    });
+
+  /** Returns the values of the slice props, with their store keys */
+  const toStoreValues = (values: Partial<S>): Record<string, unknown> => {
+    const { toStore } = getBinding();
+    const storeValues: Record<string, unknown> = {};
+    for (const prop of Object.keys(values)) {
+      if (!props.includes(prop as Prop)) {
+        throw Error(`"${prop}" is not part of the slice "${name}"`);
+      }
+      // eslint-disable-next-line immutable/no-mutation
+      storeValues[toStore(prop)] = values[prop as Prop];
+    }
+    return storeValues;
+  };
+
+  /** Returns a copy of the slice props from the state of the store */
+  const fromStoreState = (state: Record<string, unknown>): State => {
+    const { toStore } = getBinding();
+    const sliceState = {} as Record<Prop, unknown>;
+    for (const prop of props) {
+      // eslint-disable-next-line immutable/no-mutation
+      sliceState[prop] = state[toStore(prop)];
+    }
+    return sliceState as State;
+  };
+
+  /** Binds the slice to a store, creating its actions in the store */
+  const bind = (store: SliceStore, keys: SliceKeys) => {
+    const toStore = (prop: string) => (keys === "flat" ? prop : `${name}/${prop}`);
+    binding = { store, toStore, actions: {} };
+
+    for (const actionName of Object.keys(definedActions)) {
+      const action = definedActions[actionName];
+      const { resolver, affectedContexts = [], options = {} } = typeof action === "function" ? ({ resolver: action } as SliceActionDefinition<S, never[]>) : action;
+      // eslint-disable-next-line immutable/no-mutation
+      binding.actions[actionName] = store.action(
+        async (state, ...args) => {
+          const sliceState = fromStoreState(state);
+          // The slice state identifies the invocation as well, so that resolvers may pass it to getActionContext
+          actionContexts.set(sliceState, getActionContext(state));
+          const values = await resolver(sliceState, ...args);
+          return values ? toStoreValues(values) : undefined;
+        },
+        (affectedContexts as Prop[]).map(toStore),
+        { ...options, name: `${name}/${actionName}` }
+      );
+    }
+  };
+
+  const actions = {} as Record<string, StoreAction>;
+  for (const actionName of Object.keys(definedActions)) {
+    // eslint-disable-next-line immutable/no-mutation
+    actions[actionName] = Object.assign((...args: unknown[]) => getBinding().actions[actionName](...args), {
+      cancel() {
+        getBinding().actions[actionName].cancel();
+      }
+    });
+  }
+
+  const slice = {
+    name,
+    initialState,
+    /** The actions of the slice, named `<slice>/<action>` in middleware and Redux dev tools */
+    actions: (actions as unknown) as BoundSliceActions<A>,
+    /** Returns the key of a slice prop in the combined store */
+    storeKey(prop: Prop) {
+      return getBinding().toStore(prop);
+    },
+    /** Returns the props of the slice */
+    get() {
+      return fromStoreState(getBinding().store.get());
+    },
+    /** Updates props of the slice */
+    update(values: Partial<S>) {
+      getBinding().store.update(toStoreValues(values));
+    },
+    /** Sets up a subscription for a single prop of the slice */
+    subscribe<K extends Prop>(prop: K, callback: (value: S[K]) => void): () => void {
+      return getBinding().store.subscribe(getBinding().toStore(prop), callback as (value: unknown) => void);
+    },
+    /** Updates the pending status of one or more props of the slice */
+    pending<K extends Prop>(contexts: K | K[], state: boolean) {
+      getBinding().store.pending(toStoreKeys(Array.isArray(contexts) ? contexts : [contexts]), state);
+    },
+    /** Returns the current pending status of each prop of the slice */
+    getPending() {
+      return (fromStoreState(getBinding().store.getPending()) as unknown) as { [K in keyof S]: boolean };
+    },
+    /** Sets or clears (by passing undefined) the error of one or more props of the slice */
+    setError<K extends Prop>(contexts: K | K[], error: unknown) {
+      getBinding().store.setError(toStoreKeys(Array.isArray(contexts) ? contexts : [contexts]), error);
+    },
+    /** Returns the current error of each prop of the slice */
+    getErrors() {
+      return fromStoreState(getBinding().store.getErrors()) as { [K in keyof S]: unknown };
+    },
+    /** Works like `useSquawk` of the store, for the props of the slice */
+    useSquawk<K extends Prop>(...explicitContexts: K[]): State {
+      const { store, toStore } = getBinding();
+      const state = store.useSquawk(...explicitContexts.map(toStore));
+      return useMemo(() => createView(state, toStore), [state, toStore]) as State;
+    },
+    /** Works like `useSquawkSelector` of the store, the selector receives the props of the slice */
+    useSquawkSelector<R>(selector: (state: State) => R, equalityFn?: (a: R, b: R) => boolean): R {
+      const { store, toStore } = getBinding();
+      return store.useSquawkSelector((state) => selector(createView(state, toStore) as State), equalityFn);
+    },
+    /** Works like `usePending` of the store, for the props of the slice */
+    usePending<K extends Prop>(...explicitContexts: K[]): { [P in keyof S]: boolean } {
+      const { store, toStore } = getBinding();
+      const pending = store.usePending(...explicitContexts.map(toStore));
+      return useMemo(() => createView(pending, toStore), [pending, toStore]) as { [P in keyof S]: boolean };
+    },
+    /** Works like `useErrors` of the store, for the props of the slice */
+    useErrors<K extends Prop>(...explicitContexts: K[]): { [P in keyof S]: unknown } {
+      const { store, toStore } = getBinding();
+      const errors = store.useErrors(...explicitContexts.map(toStore));
+      return useMemo(() => createView(errors, toStore), [errors, toStore]) as { [P in keyof S]: unknown };
+    }
+  };
+
+  binders.set(slice, bind);
+  return slice;
+}
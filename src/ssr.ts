@@ -0,0 +1,30 @@
+/** The default name of the global variable that holds the state rendered on the server */
+const DEFAULT_GLOBAL_NAME = "__SQUAWK_STATE__";
+
+/** Characters that could end the script tag, or that are invalid in JavaScript strings in older engines */
+const UNSAFE_CHARACTERS: Record<string, string> = {
+  "<": "\\u003c",
+  ">": "\\u003e",
+  "&": "\\u0026",
+  "\u2028": "\\u2028",
+  "\u2029": "\\u2029"
+};
+
+/** Serializes the state to JSON that is safe to embed in an inline `<script>` tag */
+export const serializeState = (state: unknown): string => JSON.stringify(state).replace(/[<>&\u2028\u2029]/g, (character) => UNSAFE_CHARACTERS[character]);
+
+/** Creates an inline `<script>` tag that assigns the serialized state to a global variable, to be read with `readServerState` */
+export const createStateScript = (state: unknown, globalName = DEFAULT_GLOBAL_NAME): string => `<script>window[${serializeState(globalName)}]=${serializeState(state)};</script>`;
+
+/** Reads (and removes) the state assigned by the script tag from `createStateScript`, returns undefined on the server or if there is none */
+export const readServerState = <T>(globalName = DEFAULT_GLOBAL_NAME): Partial<T> | undefined => {
+  if (typeof window === "undefined") {
+    return undefined;
+  }
+
+  const globals = (window as unknown) as Record<string, Partial<T> | undefined>;
+  const state = globals[globalName];
+  // eslint-disable-next-line immutable/no-mutation
+  delete globals[globalName];
+  return state;
+};
@@ -0,0 +1,83 @@
+import { isTraversable, PATH_SEPARATOR } from "./paths";
+
+/** Thrown in strict mode when an object from the store has been mutated, and is passed back to the store */
+export class MutationError extends Error {
+  /** The path of the mutated prop, e.g. "user.preferences.theme" */
+  readonly path: string;
+
+  constructor(path: string) {
+    super(`"${path}" has been mutated. Values in the store are read-only, update them with a copy instead`);
+    // eslint-disable-next-line immutable/no-this, immutable/no-mutation
+    this.name = "MutationError";
+    // eslint-disable-next-line immutable/no-this, immutable/no-mutation
+    this.path = path;
+  }
+}
+
+/**
+ * Internal helper that guards the values of the store against mutations, used in strict mode
+ *
+ * @remarks
+ *
+ * Plain objects and arrays are deep-frozen. Other objects (such as class instances) can't safely be frozen, instead their own props are
+ * recorded, so that mutations can be detected when they are passed back to the store.
+ */
+// eslint-disable-next-line @typescript-eslint/explicit-module-boundary-types
+export function createMutationGuard() {
+  /** The own props of every object in the store, as they were when the object entered the store */
+  // eslint-disable-next-line @typescript-eslint/ban-types
+  const records = new WeakMap<object, Record<string, unknown>>();
+
+  const protect = (value: unknown) => {
+    if (!value || typeof value !== "object" || records.has(value as Record<string, unknown>)) {
+      return;
+    }
+
+    const props = value as Record<string, unknown>;
+    records.set(props, { ...props });
+    for (const prop of Object.keys(props)) {
+      protect(props[prop]);
+    }
+    if (isTraversable(value)) {
+      Object.freeze(value);
+    }
+  };
+
+  const assertUnchanged = (value: unknown, path: string, visited: Set<unknown>) => {
+    if (!value || typeof value !== "object" || visited.has(value)) {
+      return;
+    }
+    visited.add(value);
+
+    const props = value as Record<string, unknown>;
+    const record = records.get(props);
+    if (record) {
+      const keys = new Set([...Object.keys(record), ...Object.keys(props)]);
+      for (const prop of keys) {
+        if (!Object.is(record[prop], props[prop]) || !(prop in record) || !(prop in props)) {
+          throw new MutationError(`${path}${PATH_SEPARATOR}${prop}`);
+        }
+      }
+    }
+
+    for (const prop of Object.keys(props)) {
+      assertUnchanged(props[prop], `${path}${PATH_SEPARATOR}${prop}`, visited);
+    }
+  };
+
+  return {
+    /** Freezes the values entering the store, and records the objects that can't be frozen */
+    protect(values: Record<string, unknown>) {
+      for (const prop of Object.keys(values)) {
+        protect(values[prop]);
+      }
+    },
+    /** Throws if any object from the store within the values has been mutated, naming the path of the mutated prop */
+    assertUnchanged(values: Record<string, unknown>) {
+      const visited = new Set<unknown>();
+      for (const prop of Object.keys(values)) {
+        assertUnchanged(values[prop], prop, visited);
+      }
+    }
+  };
+}
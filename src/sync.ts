@@ -0,0 +1,211 @@
+/** A change sent between stores, holding the updated values of the synchronized props */
+export interface SyncMessage {
+  /** Identifies the store instance that sent the message */
+  sender: string;
+  /** When the change was made, according to the sender's clock */
+  timestamp: number;
+  values: Record<string, unknown>;
+}
+
+/** Sends messages to, and receives messages from, the stores in other tabs or windows. Custom transports can be used for testing */
+export interface SyncTransport {
+  send(message: SyncMessage): void;
+  /** Registers a listener for messages from other stores, returns a function that removes it */
+  subscribe(listener: (message: SyncMessage) => void): () => void;
+  /** Releases the resources held by the transport, if any. Called when the store closes a transport it created itself */
+  close?(): void;
+}
+
+/** A value along with the time it was written, as compared by the conflict policy */
+export interface SyncedValue<T> {
+  value: T;
+  timestamp: number;
+}
+
+/** Decides the value of a prop when a change arrives from another store, given the local and the incoming value */
+export type ConflictPolicy<T> = "lastWriterWins" | (<K extends keyof T>(prop: K, local: SyncedValue<T[K]>, incoming: SyncedValue<T[K]>) => T[K]);
+
+export interface SyncOptions<T> {
+  /** The name of the channel, stores using the same channel are kept in sync */
+  channel: string;
+  /** The store props to synchronize */
+  keys: (keyof T)[];
+  /** How to send and receive changes, defaults to `createBroadcastTransport(channel)` */
+  transport?: SyncTransport;
+  /**
+   * Decides how changes from other stores are applied, defaults to "lastWriterWins"
+   *
+   * @remarks
+   *
+   * With "lastWriterWins", an incoming change is only applied if it was made after the latest local change of the same prop.
+   * A custom policy receives the local and the incoming value, and returns the value to use.
+   */
+  conflict?: ConflictPolicy<T>;
+}
+
+/** Creates a transport that sends and receives messages through `storage` events, which are fired in every other tab of the same origin */
+export const createStorageTransport = (channel: string): SyncTransport => {
+  const key = `squawk-sync:${channel}`;
+  return {
+    send(message) {
+      try {
+        // Every message is unique, so the event fires even if the values are the same as last time
+        window.localStorage.setItem(key, JSON.stringify(message));
+      } catch {
+        // Ignore storage errors (quota exceeded, storage disabled, etc.)
+      }
+    },
+    subscribe(listener) {
+      const handler = (event: StorageEvent) => {
+        if (event.key !== key || !event.newValue) {
+          return;
+        }
+        try {
+          listener(JSON.parse(event.newValue));
+        } catch {
+          // Ignore malformed messages
+        }
+      };
+      window.addEventListener("storage", handler);
+      return () => window.removeEventListener("storage", handler);
+    }
+  };
+};
+
+/**
+ * Creates a transport that sends and receives messages through a BroadcastChannel
+ *
+ * @remarks
+ *
+ * Falls back to `createStorageTransport` where BroadcastChannel isn't supported, and to a transport that does nothing on the server
+ */
+export const createBroadcastTransport = (channel: string): SyncTransport => {
+  if (typeof window === "undefined") {
+    return { send: () => undefined, subscribe: () => () => undefined };
+  }
+
+  if (typeof BroadcastChannel === "undefined") {
+    return createStorageTransport(channel);
+  }
+
+  const broadcastChannel = new BroadcastChannel(`squawk-sync:${channel}`);
+  return {
+    send(message) {
+      broadcastChannel.postMessage(message);
+    },
+    subscribe(listener) {
+      const handler = (event: MessageEvent) => listener(event.data);
+      broadcastChannel.addEventListener("message", handler);
+      return () => broadcastChannel.removeEventListener("message", handler);
+    },
+    close() {
+      broadcastChannel.close();
+    }
+  };
+};
+
+/** Creates an in-memory channel, each transport created from it receives the messages sent by the others. Useful for tests and for Node */
+export const createMemoryChannel = (): { createTransport(): SyncTransport } => {
+  const listeners = new Set<(message: SyncMessage) => void>();
+  return {
+    createTransport() {
+      const own = new Set<(message: SyncMessage) => void>();
+      return {
+        send(message) {
+          // Like BroadcastChannel, messages are delivered to every transport except the sender, and never synchronously
+          const recipients = [...listeners].filter((listener) => !own.has(listener));
+          Promise.resolve().then(() => recipients.forEach((listener) => listener(message)));
+        },
+        subscribe(listener) {
+          listeners.add(listener);
+          own.add(listener);
+          return () => {
+            listeners.delete(listener);
+            own.delete(listener);
+          };
+        }
+      };
+    }
+  };
+};
+
+/** Internal helper that broadcasts local changes, and resolves incoming changes against the local state */
+// eslint-disable-next-line @typescript-eslint/explicit-module-boundary-types
+export function createSync<T>(options: SyncOptions<T>, getValue: (prop: keyof T) => unknown, apply: (values: Partial<T>) => void) {
+  const { channel, keys, conflict = "lastWriterWins" } = options;
+  const transport = options.transport || createBroadcastTransport(channel);
+  const sender = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+
+  /** When each prop was last changed, locally or by an applied incoming change */
+  const timestamps = new Map<keyof T, number>();
+
+  const receive = (message: SyncMessage) => {
+    if (!message || message.sender === sender || !message.values) {
+      return;
+    }
+
+    const values: Partial<T> = {};
+    for (const prop of Object.keys(message.values) as (keyof T)[]) {
+      if (!keys.includes(prop)) {
+        continue;
+      }
+
+      const incoming = { value: message.values[prop as string] as T[keyof T], timestamp: message.timestamp };
+      const local = { value: getValue(prop) as T[keyof T], timestamp: timestamps.get(prop) ?? 0 };
+
+      if (conflict === "lastWriterWins") {
+        // Ties are broken by the sender, so that every store settles on the same value
+        if (incoming.timestamp < local.timestamp || (incoming.timestamp === local.timestamp && message.sender < sender)) {
+          continue;
+        }
+        // eslint-disable-next-line immutable/no-mutation
+        values[prop] = incoming.value;
+      } else {
+        // eslint-disable-next-line immutable/no-mutation
+        values[prop] = conflict(prop, local, incoming);
+      }
+      timestamps.set(prop, Math.max(local.timestamp, incoming.timestamp));
+    }
+
+    if (Object.keys(values).length > 0) {
+      apply(values);
+    }
+  };
+
+  // eslint-disable-next-line immutable/no-let
+  let unsubscribe: (() => void) | null = transport.subscribe(receive);
+
+  return {
+    /** Sends the synchronized props among the updated values to the other stores */
+    broadcast(values: Partial<T>) {
+      if (!unsubscribe) {
+        return;
+      }
+
+      const timestamp = Date.now();
+      const synced: Record<string, unknown> = {};
+      for (const prop of Object.keys(values) as (keyof T)[]) {
+        if (keys.includes(prop)) {
+          timestamps.set(prop, timestamp);
+          // eslint-disable-next-line immutable/no-mutation
+          synced[prop as string] = values[prop];
+        }
+      }
+
+      if (Object.keys(synced).length > 0) {
+        transport.send({ sender, timestamp, values: synced });
+      }
+    },
+    /** Stops sending and receiving changes. The default transport is closed as well, a supplied transport is left to its owner */
+    close() {
+      if (!unsubscribe) {
+        return;
+      }
+      unsubscribe();
+      unsubscribe = null;
+      if (!options.transport && transport.close) {
+        transport.close();
+      }
+    }
+  };
+}
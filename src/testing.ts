@@ -0,0 +1,220 @@
+import { mockedResolvers, updateRecorders } from "./resolvers";
+import createStore, { StoreOptions, UpdateSource } from "./Squawk";
+
+/** An update applied to a test store, i.e. after middleware, validation and equality checks, with only the props whose values changed */
+export interface RecordedUpdate<T> {
+  /** The props that were updated */
+  keys: (keyof T)[];
+  values: Partial<T>;
+  source: UpdateSource;
+}
+
+/** Records the updates applied to a test store */
+export interface UpdateRecorder<T> {
+  /** Every update applied so far, oldest first */
+  readonly updates: RecordedUpdate<T>[];
+  /** Removes all recorded updates */
+  clear(): void;
+}
+
+/** Prevents a type parameter from being inferred from an argument, so that it's inferred from the others */
+type NoInfer<T> = [T][T extends unknown ? 0 : never];
+
+/** Resets the test stores, by store */
+const testStores = new Map<unknown, () => void>();
+
+/**
+ * Resolves once the listener reports a value, or rejects after the timeout. Either way, the listener is removed
+ *
+ * @param listen Sets up the listener, which may report a value right away, and returns a function that removes it
+ */
+const waitFor = <R>(listen: (done: (value: R) => void) => () => void, timeout: number, message: string): Promise<R> =>
+  new Promise<R>((resolve, reject) => {
+    // eslint-disable-next-line immutable/no-let
+    let settled = false;
+    // eslint-disable-next-line immutable/no-let
+    let stop: (() => void) | null = null;
+    const settle = () => {
+      settled = true;
+      clearTimeout(timer);
+      if (stop) {
+        stop();
+      }
+    };
+
+    const timer = setTimeout(() => {
+      settle();
+      reject(Error(message));
+    }, timeout);
+    stop = listen((value) => {
+      if (!settled) {
+        settle();
+        resolve(value);
+      }
+    });
+    // The listener reported a value before it had been set up
+    if (settled) {
+      stop();
+    }
+  });
+
+/**
+ * Creates a store for tests, with the overrides applied on top of the initial state
+ *
+ * @remarks
+ *
+ * In addition to the regular store methods, the test store records every update applied to it (see `updates`),
+ * and can wait for pending status and state. `resetStore` restores it to the state it was created with.
+ */
+// eslint-disable-next-line @typescript-eslint/explicit-module-boundary-types, @typescript-eslint/ban-types
+export function createTestStore<T, C = {}>(initialState: Required<T>, overrides: Partial<NoInfer<T>> = {}, options: StoreOptions<T, C> = {}) {
+  const state = { ...initialState, ...overrides } as Required<T>;
+  const store = createStore<T, C>(state, options);
+  const keys = Object.keys(state) as (keyof T & string)[];
+
+  const recorded = Array<RecordedUpdate<Required<T>>>();
+  // Rollbacks, and updates from Redux dev tools, the history and other tabs are recorded as well
+  updateRecorders.set(store, (values, source) => {
+    recorded.push({ keys: Object.keys(values) as (keyof T)[], values: values as Partial<Required<T>>, source: source as UpdateSource });
+  });
+
+  const updates: UpdateRecorder<Required<T>> = {
+    get updates() {
+      return [...recorded];
+    },
+    clear() {
+      recorded.splice(0);
+    }
+  };
+
+  testStores.set(store, () => {
+    store.reset();
+    updates.clear();
+  });
+
+  return Object.assign(store, {
+    /** Records every update applied to the store */
+    updates,
+    /** Resolves once the pending status of the context is the expected one (false by default), rejects after the timeout */
+    waitForPending(context: keyof T & string, pending = false, timeout = 1000): Promise<void> {
+      return waitFor<void>(
+        (done) => {
+          if (store.getPending()[context] === pending) {
+            done();
+          }
+          return store.subscribePending(context, (value) => {
+            if (value === pending) {
+              done();
+            }
+          });
+        },
+        timeout,
+        `Timed out waiting for "${context}" to ${pending ? "" : "no longer "}be pending`
+      );
+    },
+    /** Resolves with the state once the predicate returns true for it, rejects after the timeout */
+    waitForState(predicate: (state: ReturnType<typeof store.get>) => boolean, timeout = 1000): Promise<ReturnType<typeof store.get>> {
+      return waitFor<ReturnType<typeof store.get>>(
+        (done) => {
+          const check = () => {
+            const current = store.get();
+            if (predicate(current)) {
+              done(current);
+            }
+          };
+          check();
+          const unsubscribers = keys.map((key) => store.subscribe(key, check));
+          return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
+        },
+        timeout,
+        "Timed out waiting for the state to match the predicate"
+      );
+    }
+  });
+}
+
+/**
+ * Restores a test store to the state it was created with, and clears its pending status, errors, undo history and recorded updates
+ *
+ * @remarks
+ *
+ * Resets every test store if no store is passed, e.g. in `afterEach(() => resetStore())`.
+ */
+export const resetStore = (store?: unknown): void => {
+  if (store === undefined) {
+    testStores.forEach((reset) => reset());
+    return;
+  }
+
+  const reset = testStores.get(store);
+  if (!reset) {
+    throw Error("Only stores created with createTestStore can be reset");
+  }
+  reset();
+};
+
+/**
+ * Replaces the resolver of an action, e.g. with a jest mock, while keeping its pending status, error handling and concurrency
+ *
+ * @returns A function that restores the original resolver
+ */
+export const mockAction = <A extends (...args: never[]) => Promise<unknown>>(action: A, resolver: (...args: never[]) => unknown): (() => void) => {
+  mockedResolvers.set(action, resolver);
+  return () => {
+    mockedResolvers.delete(action);
+  };
+};
+
+/** The parts of the jest matcher context used by the matchers */
+interface MatcherContext {
+  isNot: boolean;
+  equals(a: unknown, b: unknown): boolean;
+}
+
+const getRecorder = (received: unknown): UpdateRecorder<Record<string, unknown>> => {
+  const recorder = received && (received as { updates?: UpdateRecorder<Record<string, unknown>> }).updates;
+  if (!recorder || !Array.isArray(recorder.updates)) {
+    throw Error("Expected a store created with createTestStore");
+  }
+  return recorder;
+};
+
+/**
+ * Jest matchers for test stores, register them with `expect.extend(squawkMatchers)`
+ *
+ * - `toHaveBeenUpdatedWith(values)`: Passes if any update contained the values
+ * - `toHaveBeenUpdatedTimes(count)`: Passes if exactly `count` updates have been applied to the store
+ */
+export const squawkMatchers = {
+  toHaveBeenUpdatedWith(this: MatcherContext, received: unknown, values: Record<string, unknown>): { pass: boolean; message(): string } {
+    // eslint-disable-next-line immutable/no-this
+    const { equals, isNot } = this;
+    const { updates } = getRecorder(received);
+    const pass = updates.some((update) => Object.keys(values).every((key) => key in update.values && equals(update.values[key], values[key])));
+    return {
+      pass,
+      message: () => `Expected the store ${isNot ? "not " : ""}to have been updated with ${JSON.stringify(values)}, received updates: ${JSON.stringify(updates.map((update) => update.values))}`
+    };
+  },
+  toHaveBeenUpdatedTimes(this: MatcherContext, received: unknown, count: number): { pass: boolean; message(): string } {
+    // eslint-disable-next-line immutable/no-this
+    const { isNot } = this;
+    const { updates } = getRecorder(received);
+    return {
+      pass: updates.length === count,
+      message: () => `Expected the store ${isNot ? "not " : ""}to have been updated ${count} time(s), but it was updated ${updates.length} time(s)`
+    };
+  }
+};
+
+declare global {
+  // eslint-disable-next-line @typescript-eslint/no-namespace
+  namespace jest {
+    interface Matchers<R> {
+      /** Passes if any update applied to the test store contained the values */
+      toHaveBeenUpdatedWith(values: Record<string, unknown>): R;
+      /** Passes if exactly `count` updates have been applied to the test store */
+      toHaveBeenUpdatedTimes(count: number): R;
+    }
+  }
+}
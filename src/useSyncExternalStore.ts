@@ -0,0 +1,64 @@
+import * as React from "react";
+
+type Subscribe = (onStoreChange: () => void) => () => void;
+
+/** Shared between the renders and effects of a component using the shim */
+interface ShimInstance<T> {
+  value: T;
+  getSnapshot: () => T;
+  mounted: boolean;
+}
+
+const hasChanged = <T>(instance: ShimInstance<T>) => {
+  try {
+    return !Object.is(instance.value, instance.getSnapshot());
+  } catch {
+    // Let the component re-render and throw
+    return true;
+  }
+};
+
+/**
+ * Internal shim for React versions before 18, with the same semantics as `useSyncExternalStore`
+ *
+ * @remarks
+ *
+ * The snapshot is read during render, and compared again once the component has subscribed, so that updates between render and
+ * effect are never lost. Like React 18 does while hydrating, the server snapshot (if any) is rendered until the component has mounted.
+ */
+function useSyncExternalStoreShim<T>(subscribe: Subscribe, getSnapshot: () => T, getServerSnapshot?: () => T): T {
+  const [{ instance }, forceUpdate] = React.useState(() => ({ instance: { value: (getServerSnapshot || getSnapshot)(), getSnapshot, mounted: false } as ShimInstance<T> }));
+  const value = instance.mounted ? getSnapshot() : instance.value;
+
+  React.useEffect(() => {
+    Object.assign(instance, { value, getSnapshot, mounted: true });
+    if (hasChanged(instance)) {
+      forceUpdate({ instance });
+    }
+  }, [instance, value, getSnapshot]);
+
+  React.useEffect(() => {
+    // The store may have changed between render and subscribing
+    if (hasChanged(instance)) {
+      forceUpdate({ instance });
+    }
+    return subscribe(() => {
+      if (hasChanged(instance)) {
+        forceUpdate({ instance });
+      }
+    });
+  }, [instance, subscribe]);
+
+  return value;
+}
+
+const nativeUseSyncExternalStore = ((React as unknown) as { useSyncExternalStore?: typeof useSyncExternalStoreShim }).useSyncExternalStore;
+
+/** React's own `useSyncExternalStore` if available (React 18 and later), otherwise the shim */
+export const useSyncExternalStore: <T>(subscribe: Subscribe, getSnapshot: () => T, getServerSnapshot?: () => T) => T = nativeUseSyncExternalStore || useSyncExternalStoreShim;
+
+/**
+ * True if React hydrates parts of the tree after others have mounted (selective hydration, React 18 and later), in which case it reads the
+ * server snapshot of each component while hydrating that component. Before React 18, the entire tree has been hydrated once any component has mounted
+ */
+export const hydratesSelectively = Boolean(nativeUseSyncExternalStore);
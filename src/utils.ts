@@ -0,0 +1,12 @@
+/** Checks if a value is a promise (or at least behaves like one) */
+export const isPromise = <T>(value: unknown): value is Promise<T> => !!value && typeof (value as Promise<T>).then === "function";
+
+/** Returns a new object with only the specified props */
+export const pick = <T, K extends keyof T>(source: T, props: K[]): Pick<T, K> => {
+  const result = {} as Pick<T, K>;
+  for (const prop of props) {
+    // eslint-disable-next-line immutable/no-mutation
+    result[prop] = source[prop];
+  }
+  return result;
+};
@@ -0,0 +1,66 @@
+/**
+ * A schema that throws if a value doesn't match it
+ *
+ * @remarks
+ *
+ * Zod schemas can be used as they are, other libraries need a small adapter, e.g. for io-ts:
+ * `{ parse: (value) => { if (isLeft(codec.decode(value))) throw Error("..."); return value; } }`
+ */
+export interface SchemaAdapter<T> {
+  parse(value: unknown): T;
+}
+
+/** Checks the value of a store prop, either as a predicate returning false for invalid values, or as a schema */
+export type Validator<T> = ((value: T) => boolean) | SchemaAdapter<T>;
+
+/** Validators for (some of) the store props */
+export type Validators<T> = { [K in keyof T]?: Validator<T[K]> };
+
+/** A store prop that was given an invalid value */
+export interface ValidationIssue {
+  prop: string;
+  value: unknown;
+  /** The error thrown by the schema, if any */
+  reason?: unknown;
+}
+
+const describeIssue = ({ prop, reason }: ValidationIssue) => (reason instanceof Error ? `"${prop}" (${reason.message})` : `"${prop}"`);
+
+/** Thrown (or reported to `onValidationError`) when a change is rejected by a validator */
+export class ValidationError extends Error {
+  readonly issues: ValidationIssue[];
+
+  constructor(issues: ValidationIssue[]) {
+    super(`Invalid value${issues.length > 1 ? "s" : ""} for ${issues.map(describeIssue).join(", ")}`);
+    // eslint-disable-next-line immutable/no-this, immutable/no-mutation
+    this.name = "ValidationError";
+    // eslint-disable-next-line immutable/no-this, immutable/no-mutation
+    this.issues = issues;
+  }
+}
+
+/** Internal helper that runs the validators of the given values, and returns the props with invalid values */
+export const validateValues = <T>(validators: Validators<T>, values: Partial<T>): ValidationIssue[] => {
+  const issues = Array<ValidationIssue>();
+  for (const prop of Object.keys(values) as (keyof T)[]) {
+    const validator = validators[prop];
+    if (!validator) {
+      continue;
+    }
+
+    const value = values[prop];
+    if (typeof validator === "function") {
+      if (!validator(value as T[keyof T])) {
+        issues.push({ prop: prop as string, value });
+      }
+      continue;
+    }
+
+    try {
+      validator.parse(value);
+    } catch (reason) {
+      issues.push({ prop: prop as string, value, reason });
+    }
+  }
+  return issues;
+};